@@ -5,6 +5,9 @@ import type { AIFillResult, FormAnalysis, AIProvider } from '@/shared/types';
 import { getSettings } from './storage';
 import { analyzeFormWithOpenRouter, testOpenRouterConnection, cancelAIRequest as cancelOpenRouterRequest } from './openrouter-service';
 import { analyzeFormWithGemini, testGeminiConnection, cancelGeminiRequest } from './gemini-service';
+import { analyzeFormWithLocal, testLocalConnection } from './local-service';
+import { isFieldAllowedByPolicy } from '@/shared/fill-policy';
+import { validateFillValues } from '@/shared/value-validator';
 import { logger } from '@/utils/logger';
 
 // Re-export types
@@ -27,8 +30,8 @@ function getActiveProviderProfile(settings: Awaited<ReturnType<typeof getSetting
   const provider = settings.activeProvider || 'openrouter';
   const profile = settings.providers?.[provider];
 
-  // Fallback to legacy settings if no provider profile exists
-  if (!profile || !profile.apiKey) {
+  // Fallback to legacy settings if no provider profile exists (the local provider needs no key)
+  if (!profile || (!profile.apiKey && provider !== 'local')) {
     if (provider === 'openrouter') {
       return {
         provider: 'openrouter' as AIProvider,
@@ -59,6 +62,7 @@ function getActiveProviderProfile(settings: Awaited<ReturnType<typeof getSetting
 /**
  * Analyze form using the active AI provider
  * Includes retry logic for failed JSON parsing and 429 fallback
+ * Values are validated before they are returned; invalid ones get one targeted repair request
  */
 export async function analyzeFormWithAI(
   formAnalysis: FormAnalysis,
@@ -75,32 +79,101 @@ export async function analyzeFormWithAI(
 
   logger.log(`Using provider: ${profile.provider}, model: ${profile.model}`);
 
-  switch (profile.provider) {
-    case 'gemini':
-      return analyzeFormWithGemini(
-        formAnalysis,
-        profile.apiKey,
-        profile.apiKeys,
-        profile.primaryApiKeyId,
-        profile.model,
-        activeTemplate,
-        maxRetries,
-        onStream
-      );
+  const requestValues = (analysis: FormAnalysis): Promise<AIFillResult> => {
+    switch (profile.provider) {
+      case 'local':
+        return analyzeFormWithLocal(analysis, settings.targetLanguage, onStream);
+
+      case 'gemini':
+        return analyzeFormWithGemini(
+          analysis,
+          profile.apiKey,
+          profile.apiKeys,
+          profile.primaryApiKeyId,
+          profile.model,
+          activeTemplate,
+          maxRetries,
+          onStream
+        );
+
+      case 'openrouter':
+      default:
+        return analyzeFormWithOpenRouter(
+          analysis,
+          profile.apiKey,
+          profile.apiKeys,
+          profile.primaryApiKeyId,
+          profile.model,
+          activeTemplate,
+          settings.debugMode || false,
+          maxRetries,
+          onStream
+        );
+    }
+  };
 
-    case 'openrouter':
-    default:
-      return analyzeFormWithOpenRouter(
-        formAnalysis,
-        profile.apiKey,
-        profile.apiKeys,
-        profile.primaryApiKeyId,
-        profile.model,
-        activeTemplate,
-        settings.debugMode || false,
-        maxRetries,
-        onStream
-      );
+  // Fields the overwrite policy protects are never sent, so no tokens are spent on them
+  const policy = settings.overwritePolicy ?? 'always';
+  const fields = formAnalysis.fields.filter((field) => isFieldAllowedByPolicy(field, policy));
+  if (fields.length < formAnalysis.fields.length) {
+    logger.log(`Overwrite policy "${policy}": ${formAnalysis.fields.length - fields.length} fields kept as they are`);
+  }
+  if (fields.length === 0) {
+    return {};
+  }
+
+  const analysis = { ...formAnalysis, fields };
+  const values = await requestValues(analysis);
+  // The local generator is deterministic: asking it again returns the same invalid values
+  return validateAndRepair(analysis, values, profile.provider === 'local' ? undefined : requestValues);
+}
+
+/**
+ * Validate AI values against their fields, fix what can be fixed locally
+ * and ask the provider once more for the fields that are still invalid (invalid values are dropped without one)
+ */
+async function validateAndRepair(
+  formAnalysis: FormAnalysis,
+  values: AIFillResult,
+  requestValues?: (analysis: FormAnalysis) => Promise<AIFillResult>
+): Promise<AIFillResult> {
+  const { values: validValues, issues, repairedCount } = validateFillValues(formAnalysis.fields, values, formAnalysis.locale);
+
+  if (repairedCount > 0) {
+    logger.log(`Repaired ${repairedCount} values locally`);
+  }
+  if (issues.length === 0) {
+    return validValues;
+  }
+  if (!requestValues) {
+    logger.warn(`Dropping ${issues.length} invalid values:`, issues);
+    return validValues;
+  }
+
+  logger.warn(`${issues.length} values failed validation, requesting repair:`, issues);
+
+  const repairFields = issues.flatMap((issue) => {
+    const field = formAnalysis.fields.find((f) => f.id === issue.fieldId);
+    return field ? [{ ...field, rejection: { value: issue.value, reason: issue.reason } }] : [];
+  });
+
+  try {
+    // Only the rejected fields, without the screenshot, to keep the repair request small
+    const repaired = await requestValues({ ...formAnalysis, fields: repairFields, screenshot: undefined });
+    const recheck = validateFillValues(repairFields, repaired, formAnalysis.locale);
+
+    if (recheck.issues.length > 0) {
+      logger.warn('Dropping values still invalid after repair:', recheck.issues);
+    }
+
+    // Only accept repaired values for the fields that were sent
+    const accepted = Object.fromEntries(
+      Object.entries(recheck.values).filter(([fieldId]) => repairFields.some((f) => f.id === fieldId))
+    );
+    return { ...validValues, ...accepted };
+  } catch (error) {
+    logger.warn('Repair request failed, invalid values dropped:', error);
+    return validValues;
   }
 }
 
@@ -118,6 +191,9 @@ export async function testApiConnection(): Promise<{
   logger.log(`Testing connection for provider: ${profile.provider}`);
 
   switch (profile.provider) {
+    case 'local':
+      return testLocalConnection();
+
     case 'gemini':
       return testGeminiConnection(profile.apiKey, profile.model);
 
@@ -142,6 +218,9 @@ export async function testProviderConnection(
   logger.log(`Testing connection for provider: ${provider}`);
 
   switch (provider) {
+    case 'local':
+      return testLocalConnection();
+
     case 'gemini':
       return testGeminiConnection(apiKey, model);
 
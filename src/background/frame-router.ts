@@ -0,0 +1,193 @@
+/**
+ * Frame Router - Fans form detection and filling out to every frame of a tab
+ */
+import type {
+  AIFillResult,
+  CollectFieldsPayload,
+  DetectedField,
+  ExtensionResponse,
+  FillFormPayload,
+  FillResult,
+  FillSummary,
+} from '@/shared/types';
+import {
+  TOP_FRAME_ID,
+  getFieldFrameId,
+  scopeFieldId,
+  scopeFieldToFrame,
+  toFrameLocalField,
+  unscopeFieldId,
+} from '@/shared/frames';
+import { logger } from '@/utils/logger';
+
+/**
+ * List frame ids of a tab (falls back to the top frame only)
+ */
+async function getFrameIds(tabId: number): Promise<number[]> {
+  try {
+    const frames = await chrome.webNavigation.getAllFrames({ tabId });
+    if (frames && frames.length > 0) {
+      return frames.map((frame) => frame.frameId);
+    }
+  } catch (error) {
+    logger.warn('Failed to list frames, using top frame only:', error);
+  }
+  return [TOP_FRAME_ID];
+}
+
+/**
+ * Run form detection in every frame and merge the field lists
+ */
+export async function collectFrameFields(
+  tabId: number,
+  options: CollectFieldsPayload = {}
+): Promise<DetectedField[]> {
+  const frameIds = await getFrameIds(tabId);
+
+  const perFrame = await Promise.all(
+    frameIds.map(async (frameId) => {
+      try {
+        const response: ExtensionResponse<DetectedField[]> = await chrome.tabs.sendMessage(
+          tabId,
+          { type: 'GET_FORM_FIELDS', payload: { ...options, frameId } },
+          { frameId }
+        );
+        if (!response?.success || !response.data) return [];
+        return response.data.map((field) => scopeFieldToFrame(field, frameId));
+      } catch {
+        // Frame has no content script (about:blank, restricted or still loading)
+        return [];
+      }
+    })
+  );
+
+  const fields = perFrame.flat();
+  logger.log(`Collected ${fields.length} fields from ${frameIds.length} frames`);
+  return fields;
+}
+
+/**
+ * Send each frame its own slice of fields and values, then merge the results
+ * Frames are filled one after another so focus changes don't interfere
+ */
+export async function fillFrames(tabId: number, payload: FillFormPayload): Promise<FillSummary> {
+  const { fields, values, enabledFieldTypes, overwritePolicy, runId, knownFieldIds } = payload;
+
+  // Group fields by frame
+  const fieldsByFrame = new Map<number, DetectedField[]>();
+  for (const field of fields) {
+    const frameId = field.frameId ?? TOP_FRAME_ID;
+    fieldsByFrame.set(frameId, [...(fieldsByFrame.get(frameId) || []), field]);
+  }
+
+  const results: FillResult[] = [];
+
+  for (const [frameId, frameFields] of fieldsByFrame) {
+    const localFields = frameFields.map(toFrameLocalField);
+    const localValues: AIFillResult = {};
+    frameFields.forEach((field, index) => {
+      if (values[field.id] !== undefined) {
+        localValues[localFields[index].id] = values[field.id];
+      }
+    });
+
+    const localKnownIds = knownFieldIds
+      ?.filter((id) => getFieldFrameId(id) === frameId)
+      .map(unscopeFieldId);
+
+    try {
+      const response: ExtensionResponse<FillSummary> = await chrome.tabs.sendMessage(
+        tabId,
+        {
+          type: 'FILL_FORM',
+          payload: {
+            fields: localFields,
+            values: localValues,
+            enabledFieldTypes,
+            overwritePolicy,
+            frameId,
+            runId,
+            knownFieldIds: localKnownIds,
+          },
+        },
+        { frameId }
+      );
+
+      if (!response?.success || !response.data) {
+        throw new Error(response?.error || 'Frame fill failed');
+      }
+
+      results.push(
+        ...response.data.results.map((result) => ({
+          ...result,
+          fieldId: scopeFieldId(result.fieldId, frameId),
+        }))
+      );
+    } catch (error) {
+      logger.error(`Failed to fill frame ${frameId}:`, error);
+      results.push(
+        ...frameFields.map((field) => ({
+          fieldId: field.id,
+          success: false,
+          error: error instanceof Error ? error.message : 'Frame fill failed',
+        }))
+      );
+    }
+  }
+
+  return {
+    totalFields: results.length,
+    successCount: results.filter((r) => r.success).length,
+    failCount: results.filter((r) => !r.success).length,
+    results,
+  };
+}
+
+/**
+ * Undo an auto-fill run in every frame and return the number of restored fields
+ * Frames that were not part of the run report 0
+ */
+export async function undoFrames(tabId: number, runId: string): Promise<number> {
+  const frameIds = await getFrameIds(tabId);
+  let restored = 0;
+
+  for (const frameId of frameIds) {
+    try {
+      const response: ExtensionResponse<number> = await chrome.tabs.sendMessage(
+        tabId,
+        { type: 'UNDO_FILL', payload: { runId } },
+        { frameId }
+      );
+      restored += response?.success ? response.data ?? 0 : 0;
+    } catch {
+      // Frame has no content script
+    }
+  }
+
+  return restored;
+}
+
+/**
+ * Have the top frame resolve values for fields a child frame revealed while filling
+ * Field ids are scoped for the top frame and the values mapped back to the frame's own ids
+ */
+export async function resolveFrameFieldValues(
+  tabId: number,
+  frameId: number,
+  fields: DetectedField[]
+): Promise<AIFillResult> {
+  const response: ExtensionResponse<AIFillResult> = await chrome.tabs.sendMessage(
+    tabId,
+    { type: 'RESOLVE_FIELD_VALUES', payload: { fields: fields.map((field) => scopeFieldToFrame(field, frameId)) } },
+    { frameId: TOP_FRAME_ID }
+  );
+  if (!response?.success || !response.data) {
+    throw new Error(response?.error || 'Resolving field values failed');
+  }
+
+  const values: AIFillResult = {};
+  for (const [fieldId, value] of Object.entries(response.data)) {
+    values[unscopeFieldId(fieldId)] = value;
+  }
+  return values;
+}
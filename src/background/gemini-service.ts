@@ -1,7 +1,9 @@
 import { GoogleGenAI } from '@google/genai';
 import type { AIFillResult, FormAnalysis, ApiKeyEntry, PromptTemplate } from '@/shared/types';
 import { AVAILABLE_MODELS } from '@/shared/constants';
+import { joinStructuredDate } from '@/shared/date-format';
 import { logger } from '@/utils/logger';
+import { buildFieldsSummary, buildRepairInstructions } from './prompt-builder';
 
 // Streaming callback type
 export type StreamCallback = (chunk: string, fullText: string) => void;
@@ -67,17 +69,7 @@ function getNextApiKey(
  * Build analysis prompt for Gemini
  */
 function buildAnalysisPrompt(formAnalysis: FormAnalysis, activeTemplate?: PromptTemplate, isRetry: boolean = false): string {
-  const fieldsSummary = formAnalysis.fields.map((field) => ({
-    id: field.id,
-    label: field.label,
-    type: field.type,
-    required: field.required,
-    options: field.options,
-    currentValue: field.currentValue || '(empty)',
-    fillMethod: field.fillMethod,
-    isDisabled: field.isDisabled,
-    isReadOnly: field.isReadOnly,
-  }));
+  const fieldsSummary = buildFieldsSummary(formAnalysis.fields);
 
   // Use custom template if provided
   if (activeTemplate) {
@@ -85,6 +77,8 @@ function buildAnalysisPrompt(formAnalysis: FormAnalysis, activeTemplate?: Prompt
       .replace('{{URL}}', formAnalysis.url)
       .replace('{{FIELDS}}', JSON.stringify(fieldsSummary, null, 2));
 
+    prompt += buildRepairInstructions(formAnalysis.fields);
+
     if (isRetry) {
       prompt += `\n\n## RETRY: Your previous response failed to parse. Return ONLY valid JSON.`;
     }
@@ -107,14 +101,20 @@ ${strictJsonWarning}
 ${formAnalysis.url}
 
 ## Detected Form Fields (from DOM)
-${JSON.stringify(fieldsSummary, null, 2)}
+${JSON.stringify(fieldsSummary, null, 2)}${buildRepairInstructions(formAnalysis.fields)}
 
 ## Instructions
 1. Look at the screenshot to understand the form context
 2. For each field, generate a RANDOM and REALISTIC test value
 3. Use Korean values where appropriate (this is a Korean business app)
 4. SKIP fields with fillMethod: "skip", "computed", "file" or isDisabled: true
-5. Return ONLY a JSON object mapping field id to value
+5. For select and radio fields, return one of the listed options; for checkbox groups (checkbox with options), a comma-separated list of options;
+   for fields with multiple: true, a JSON array of values between constraints.minItems and constraints.maxItems entries
+6. Respect each field's constraints (min/max, step, minLength/maxLength, pattern, inputType)
+   and semanticType (e.g. a Korean business number like 123-45-67890 for "business-number")
+   and dateKind: date "YYYY-MM-DD", time "HH:mm", month "YYYY-MM", year "YYYY",
+   datetime {"date": "YYYY-MM-DD", "time": "HH:mm"}, date-range {"start": "YYYY-MM-DD", "end": "YYYY-MM-DD"}
+7. Return ONLY a JSON object mapping field id to value
 
 ## Example Output
 {"field1": "value1", "field2": "value2"}
@@ -189,7 +189,10 @@ function parseGeminiResponse(content: string): AIFillResult {
     const cleaned: AIFillResult = {};
     for (const [key, value] of Object.entries(result)) {
       if (value !== null && value !== undefined) {
-        cleaned[key] = String(value);
+        // Multi-value fields keep their arrays; ranges and datetimes may come back as {start, end} / {date, time}
+        cleaned[key] = Array.isArray(value)
+          ? value.filter((item) => item !== null && item !== undefined).map(String)
+          : joinStructuredDate(value) ?? String(value);
       }
     }
 
@@ -4,10 +4,18 @@ import type {
   ExtensionSettings,
   FormAnalysis,
   AIFillResult,
+  CollectFieldsPayload,
+  DetectedField,
+  FillFormPayload,
+  FillSummary,
+  ResolveFieldValuesPayload,
+  UndoFillPayload,
 } from '@/shared/types';
+import { TOP_FRAME_ID } from '@/shared/frames';
 import { getSettings, saveSettings } from './storage';
 import { captureTabScreenshot } from './screenshot';
 import { analyzeFormWithAI, testApiConnection, cancelAIRequest, type StreamCallback } from './ai-service';
+import { collectFrameFields, fillFrames, resolveFrameFieldValues, undoFrames } from './frame-router';
 import { logger } from '@/utils/logger';
 
 logger.log('Background service worker loaded');
@@ -53,6 +61,18 @@ async function handleMessage(
     case 'CANCEL_REQUEST':
       return { success: true, data: { cancelled: cancelAIRequest() } };
 
+    case 'COLLECT_FRAME_FIELDS':
+      return handleCollectFrameFields(message.payload as CollectFieldsPayload | undefined, sender);
+
+    case 'FILL_FRAMES':
+      return handleFillFrames(message.payload as FillFormPayload, sender);
+
+    case 'UNDO_FRAMES':
+      return handleUndoFrames(message.payload as UndoFillPayload, sender);
+
+    case 'RESOLVE_FIELD_VALUES':
+      return handleResolveFieldValues(message.payload as ResolveFieldValuesPayload, sender);
+
     default:
       return { success: false, error: `Unknown message type: ${message.type}` };
   }
@@ -76,11 +96,12 @@ async function handleAnalyzeForm(
   sender: chrome.runtime.MessageSender
 ): Promise<ExtensionResponse<AIFillResult>> {
   try {
-    if (!formAnalysis.screenshot) {
+    const settings = await getSettings();
+
+    // The local generator does not look at the page, so skip the capture
+    if (!formAnalysis.screenshot && settings.activeProvider !== 'local') {
       formAnalysis.screenshot = await captureTabScreenshot();
     }
-
-    const settings = await getSettings();
     const tabId = sender.tab?.id;
 
     // Create stream callback if debug mode enabled
@@ -108,6 +129,89 @@ async function handleAnalyzeForm(
   }
 }
 
+async function handleCollectFrameFields(
+  payload: CollectFieldsPayload | undefined,
+  sender: chrome.runtime.MessageSender
+): Promise<ExtensionResponse<DetectedField[]>> {
+  const tabId = sender.tab?.id;
+  if (!tabId) {
+    return { success: false, error: 'No sender tab' };
+  }
+
+  try {
+    return { success: true, data: await collectFrameFields(tabId, payload) };
+  } catch (error) {
+    logger.error('Frame field collection failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Field collection failed',
+    };
+  }
+}
+
+async function handleFillFrames(
+  payload: FillFormPayload,
+  sender: chrome.runtime.MessageSender
+): Promise<ExtensionResponse<FillSummary>> {
+  const tabId = sender.tab?.id;
+  if (!tabId) {
+    return { success: false, error: 'No sender tab' };
+  }
+
+  try {
+    return { success: true, data: await fillFrames(tabId, payload) };
+  } catch (error) {
+    logger.error('Frame fill failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Fill failed',
+    };
+  }
+}
+
+async function handleUndoFrames(
+  payload: UndoFillPayload,
+  sender: chrome.runtime.MessageSender
+): Promise<ExtensionResponse<number>> {
+  const tabId = sender.tab?.id;
+  if (!tabId) {
+    return { success: false, error: 'No sender tab' };
+  }
+
+  try {
+    return { success: true, data: await undoFrames(tabId, payload.runId) };
+  } catch (error) {
+    logger.error('Undo failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Undo failed',
+    };
+  }
+}
+
+async function handleResolveFieldValues(
+  payload: ResolveFieldValuesPayload,
+  sender: chrome.runtime.MessageSender
+): Promise<ExtensionResponse<AIFillResult>> {
+  const tabId = sender.tab?.id;
+  if (!tabId) {
+    return { success: false, error: 'No sender tab' };
+  }
+
+  try {
+    return {
+      success: true,
+      data: await resolveFrameFieldValues(tabId, sender.frameId ?? TOP_FRAME_ID, payload.fields),
+    };
+  } catch (error) {
+    logger.error('Resolving field values failed:', error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Resolving field values failed',
+    };
+  }
+}
+
 // Extension install/update handler
 chrome.runtime.onInstalled.addListener(async (details) => {
   logger.log('Extension installed:', details.reason);
@@ -0,0 +1,40 @@
+/**
+ * Local Service - Built-in offline provider
+ * Generates values with the deterministic data generator (no API key, no network)
+ */
+import type { AIFillResult, FormAnalysis } from '@/shared/types';
+import { LOCAL_GENERATOR_MODEL } from '@/shared/constants';
+import { generateFormValues, type GeneratorLanguage } from '@/shared/data-generator';
+import { logger } from '@/utils/logger';
+
+/**
+ * Generate values for the form locally
+ * Same page and fields always produce the same values
+ */
+export async function analyzeFormWithLocal(
+  formAnalysis: FormAnalysis,
+  language: GeneratorLanguage = 'kr',
+  onStream?: (chunk: string, fullText: string) => void
+): Promise<AIFillResult> {
+  const values = generateFormValues(formAnalysis.fields, { language, seed: formAnalysis.url });
+  logger.log(`Local generator produced ${Object.keys(values).length} values`);
+
+  // Debug output shows the generated JSON like a streamed model response
+  if (onStream) {
+    const text = JSON.stringify(values, null, 2);
+    onStream(text, text);
+  }
+
+  return values;
+}
+
+/**
+ * The local generator is always available
+ */
+export async function testLocalConnection(): Promise<{
+  success: boolean;
+  error?: string;
+  model?: string;
+}> {
+  return { success: true, model: LOCAL_GENERATOR_MODEL };
+}
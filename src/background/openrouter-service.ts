@@ -1,6 +1,8 @@
 import type { AIFillResult, FormAnalysis, ApiKeyEntry, PromptTemplate } from '@/shared/types';
 import { OPENROUTER_API_URL, AVAILABLE_MODELS } from '@/shared/constants';
+import { joinStructuredDate } from '@/shared/date-format';
 import { logger } from '@/utils/logger';
+import { buildFieldsSummary, buildRepairInstructions } from './prompt-builder';
 
 interface OpenRouterMessage {
   role: 'user' | 'assistant' | 'system';
@@ -235,23 +237,15 @@ export async function analyzeFormWithOpenRouter(
  * Build custom prompt from user template
  */
 function buildCustomPrompt(formAnalysis: FormAnalysis, template: PromptTemplate, isRetry: boolean = false): string {
-  const fieldsSummary = formAnalysis.fields.map((field) => ({
-    id: field.id,
-    label: field.label,
-    type: field.type,
-    required: field.required,
-    options: field.options,
-    currentValue: field.currentValue || '(empty)',
-    fillMethod: field.fillMethod,
-    isDisabled: field.isDisabled,
-    isReadOnly: field.isReadOnly,
-  }));
+  const fieldsSummary = buildFieldsSummary(formAnalysis.fields);
 
   // Replace template variables
   let prompt = template.prompt
     .replace('{{URL}}', formAnalysis.url)
     .replace('{{FIELDS}}', JSON.stringify(fieldsSummary, null, 2));
 
+  prompt += buildRepairInstructions(formAnalysis.fields);
+
   // Add retry warning if needed
   if (isRetry) {
     prompt += `\n\n## ⚠️ RETRY: Your previous response failed to parse. Return ONLY valid JSON.`;
@@ -264,17 +258,7 @@ function buildCustomPrompt(formAnalysis: FormAnalysis, template: PromptTemplate,
  * Build the analysis prompt based on detected fields
  */
 function buildAnalysisPrompt(formAnalysis: FormAnalysis, isRetry: boolean = false): string {
-  const fieldsSummary = formAnalysis.fields.map((field) => ({
-    id: field.id,
-    label: field.label,
-    type: field.type,
-    required: field.required,
-    options: field.options,
-    currentValue: field.currentValue || '(empty)',
-    fillMethod: field.fillMethod,
-    isDisabled: field.isDisabled,
-    isReadOnly: field.isReadOnly,
-  }));
+  const fieldsSummary = buildFieldsSummary(formAnalysis.fields);
 
   // Stricter JSON-only instructions for retry attempts
   const strictJsonWarning = isRetry
@@ -315,7 +299,7 @@ ${formAnalysis.url}
 ## Detected Form Fields (from DOM)
 \`\`\`json
 ${JSON.stringify(fieldsSummary, null, 2)}
-\`\`\`
+\`\`\`${buildRepairInstructions(formAnalysis.fields)}
 
 ## Instructions
 1. Look at the screenshot to understand the form context
@@ -323,6 +307,12 @@ ${JSON.stringify(fieldsSummary, null, 2)}
 3. Use Korean values where appropriate (this is a Korean business app)
 4. For required fields, always provide a value
 5. For select fields, choose from the available options if provided
+   - For radio fields, return exactly one of the listed options
+   - For checkbox fields with options (checkbox groups), return the options to check as a comma-separated list
+   - For fields with multiple: true, return a JSON array of values (options for selects, tags for text),
+     with at least constraints.minItems and at most constraints.maxItems entries (e.g. ["Red", "Blue"])
+   - Respect each field's constraints (min/max, step, minLength/maxLength, pattern, inputType such as email/tel/url)
+   - Match each field's semanticType when present (e.g. "postcode" → 5-digit Korean postal code, "business-number" → 123-45-67890)
 6. **SKIP these fields (do not include in response)**:
    - Fields with fillMethod: "skip" (disabled)
    - Fields with fillMethod: "computed" (auto-generated)
@@ -338,7 +328,9 @@ ${JSON.stringify(fieldsSummary, null, 2)}
 - Phone: Korean format with random numbers (e.g., "010-XXXX-XXXX" where X is random digit)
 - Email: Random realistic emails combining names and domains (e.g., "user123@gmail.com", "sales@company.co.kr")
 - Address: Random Korean addresses (vary city, district, street)
-- Dates: Random dates within reasonable ranges (YYYY-MM-DD format)
+- Dates: Random dates within reasonable ranges, written by the field's dateKind: date "YYYY-MM-DD", time "HH:mm", month "YYYY-MM", year "YYYY",
+  datetime {"date": "YYYY-MM-DD", "time": "HH:mm"}, date-range {"start": "YYYY-MM-DD", "end": "YYYY-MM-DD"} with start before end
+  (the filler converts them to the format the form shows)
 - Numbers: Random values within appropriate ranges for the field type
 - Prices: Random amounts that look realistic (e.g., 15000, 89000, 125000)
 - Categories: Pick randomly from common category paths
@@ -587,7 +579,10 @@ function parseAIResponse(response: OpenRouterResponse): AIFillResult {
     const cleaned: AIFillResult = {};
     for (const [key, value] of Object.entries(result)) {
       if (value !== null && value !== undefined) {
-        cleaned[key] = String(value);
+        // Multi-value fields keep their arrays; ranges and datetimes may come back as {start, end} / {date, time}
+        cleaned[key] = Array.isArray(value)
+          ? value.filter((item) => item !== null && item !== undefined).map(String)
+          : joinStructuredDate(value) ?? String(value);
       }
     }
 
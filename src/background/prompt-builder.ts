@@ -0,0 +1,41 @@
+/**
+ * Prompt Builder - Field summaries shared by every AI provider prompt
+ */
+import type { DetectedField } from '@/shared/types';
+
+/**
+ * Summarize detected fields for the prompt (optional metadata is omitted when absent)
+ */
+export function buildFieldsSummary(fields: DetectedField[]) {
+  return fields.map((field) => ({
+    id: field.id,
+    label: field.label,
+    type: field.type,
+    semanticType: field.semanticType,
+    dateKind: field.dateKind,
+    required: field.required,
+    multiple: field.multiple,
+    options: field.options,
+    optionGroups: field.optionGroups,
+    constraints: field.constraints,
+    currentValue: field.currentValue || '(empty)',
+    fillMethod: field.fillMethod,
+    isDisabled: field.isDisabled,
+    isReadOnly: field.isReadOnly,
+    rejection: field.rejection,
+  }));
+}
+
+/**
+ * Extra instructions when the prompt re-requests previously rejected values ('' otherwise)
+ */
+export function buildRepairInstructions(fields: DetectedField[]): string {
+  if (!fields.some((field) => field.rejection)) return '';
+
+  return `
+
+## ⚠️ REPAIR: Previous values were rejected
+Each field below has a "rejection" with the value you generated and why it was rejected.
+Return a NEW value for every field that fixes the stated reason and satisfies the field's options and constraints.
+When the reason quotes an error message shown by the form, the new value must satisfy that message.`;
+}
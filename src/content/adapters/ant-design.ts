@@ -0,0 +1,209 @@
+import { ANT_DESIGN_SELECTORS } from '@/shared/constants';
+import { logger } from '@/utils/logger';
+import { getDateInputCandidates } from '../date-detector';
+import { fillTextInput, pressKey, setNativeValue } from '../input-events';
+import { existsDeep, getElementRoot } from '../shadow-dom';
+import type { SelectOption, UILibraryAdapter } from './types';
+import { isTruthyValue, matchOptionElement, waitFor } from './utils';
+
+// Widget roots rendered by Ant Design form components
+const ANT_WIDGET_ROOT =
+  '.ant-input, .ant-input-affix-wrapper, .ant-select, .ant-picker, .ant-input-number, ' +
+  '.ant-checkbox-wrapper, .ant-radio-wrapper, .ant-switch';
+
+/**
+ * Ant Design adapter
+ */
+export const antDesignAdapter: UILibraryAdapter = {
+  name: 'ant-design',
+
+  isPresent: () => existsDeep(ANT_DESIGN_SELECTORS.root),
+
+  fieldSelectors: [
+    { selector: ANT_DESIGN_SELECTORS.select, type: 'select' },
+    { selector: ANT_DESIGN_SELECTORS.dateInput, type: 'date' },
+    { selector: ANT_DESIGN_SELECTORS.numberInput, type: 'number' },
+    { selector: ANT_DESIGN_SELECTORS.textarea, type: 'textarea' },
+    { selector: ANT_DESIGN_SELECTORS.checkbox, type: 'checkbox' },
+    { selector: ANT_DESIGN_SELECTORS.radio, type: 'radio' },
+    { selector: ANT_DESIGN_SELECTORS.switch, type: 'switch' },
+    { selector: ANT_DESIGN_SELECTORS.textInput, type: 'text' },
+  ],
+
+  owns: (element) => element.closest(ANT_WIDGET_ROOT) !== null,
+
+  readValue(element, type) {
+    if (type === 'switch') {
+      return element.getAttribute('aria-checked') === 'true' ? 'true' : 'false';
+    }
+
+    if (type === 'select') {
+      const selectRoot = element.closest('.ant-select');
+      if (!selectRoot) return undefined;
+      return Array.from(selectRoot.querySelectorAll('.ant-select-selection-item'))
+        .map((item) => item.getAttribute('title') || item.textContent?.trim() || '')
+        .filter(Boolean)
+        .join(', ');
+    }
+
+    return undefined;
+  },
+
+  getOptions(element) {
+    // The accessible listbox mirrors the (virtualised) dropdown while it is rendered
+    const listboxId = element.getAttribute('aria-controls') || element.getAttribute('aria-owns');
+    if (!listboxId) return undefined;
+
+    const listbox = getElementRoot(element).getElementById(listboxId);
+    const options = listbox?.querySelectorAll('[role="option"]');
+    if (!options || options.length === 0) return undefined;
+
+    return Array.from(options)
+      .map((opt) => opt.getAttribute('aria-label') || opt.textContent?.trim() || '')
+      .filter(Boolean);
+  },
+
+  harvestOptions: harvestAntOptions,
+
+  async fill(element, type, value) {
+    switch (type) {
+      case 'select':
+        if (!element.closest('.ant-select')) return false;
+        return { matchScore: await fillAntSelect(element as HTMLInputElement, value) };
+
+      case 'switch':
+        if (!element.classList.contains('ant-switch')) return false;
+        if ((element.getAttribute('aria-checked') === 'true') !== isTruthyValue(value)) {
+          element.click();
+          await sleep(100);
+        }
+        return true;
+
+      case 'date': {
+        if (!element.closest('.ant-picker')) return false;
+        // Pickers parse typed text in their own format and commit it on Enter
+        const [formatted] = getDateInputCandidates(element, value);
+        element.click();
+        await fillTextInput(element as HTMLInputElement, formatted ?? value);
+        pressKey(element, 'Enter');
+        await sleep(100);
+        return true;
+      }
+
+      default:
+        return false;
+    }
+  },
+
+  async clear(element) {
+    const root = element.closest('.ant-select, .ant-picker');
+    if (!root) return false;
+
+    // Tags of multiple selects are removed one by one, single values through the clear icon (allowClear)
+    const removers = Array.from(root.querySelectorAll<HTMLElement>('.ant-select-selection-item-remove'));
+    const clearIcon = root.querySelector<HTMLElement>('.ant-select-clear, .ant-picker-clear');
+    const targets = removers.length > 0 ? removers : clearIcon ? [clearIcon] : [];
+    if (targets.length === 0) return false;
+
+    for (const target of targets) {
+      // Ant Design handles these on mousedown
+      target.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, button: 0 }));
+      target.click();
+      await sleep(100);
+    }
+    return true;
+  },
+};
+
+/**
+ * Open Ant Design Select briefly and read its options, with the group header each option is listed under
+ * The dropdown is virtualised, so only the rendered part of long lists is read
+ */
+async function harvestAntOptions(input: HTMLElement): Promise<SelectOption[] | undefined> {
+  const selectRoot = input.closest('.ant-select');
+  if (!selectRoot) return undefined;
+
+  const selector = selectRoot.querySelector('.ant-select-selector') || selectRoot;
+  selector.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+  const items = (await waitFor(() => Array.from(getOpenDropdown()?.querySelectorAll('.ant-select-item') ?? []), 800)) ?? [];
+
+  // Group headers are rendered as rows before their options
+  let group: string | undefined;
+  const options: SelectOption[] = [];
+  for (const item of items) {
+    if (item.classList.contains('ant-select-item-group')) {
+      group = item.textContent?.trim() || undefined;
+    } else if (item.classList.contains('ant-select-item-option')) {
+      const label = getOptionText(item).trim();
+      if (label) options.push({ label, group });
+    }
+  }
+
+  pressKey(input, 'Escape');
+  input.blur();
+  await sleep(50);
+  return options;
+}
+
+/**
+ * Dropdown of the Select that is open (the last one rendered)
+ */
+function getOpenDropdown(): Element | undefined {
+  const dropdowns = Array.from(document.querySelectorAll('.ant-select-dropdown:not(.ant-select-dropdown-hidden)'));
+  return dropdowns[dropdowns.length - 1];
+}
+
+function getOptionText(option: Element): string {
+  return (
+    option.getAttribute('title') ||
+    option.querySelector('.ant-select-item-option-content')?.textContent ||
+    ''
+  );
+}
+
+/**
+ * Fill Ant Design Select by opening the dropdown and clicking the option
+ * Searchable selects are filtered by typing when the option is outside the virtual list
+ * Resolves the match score of the clicked option
+ */
+async function fillAntSelect(input: HTMLInputElement, value: string): Promise<number> {
+  const selectRoot = input.closest('.ant-select') as HTMLElement;
+  const selector = selectRoot.querySelector('.ant-select-selector') || selectRoot;
+
+  // Ant Design opens on mousedown, not click
+  selector.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true }));
+
+  const findOptions = () => {
+    const dropdown = getOpenDropdown();
+    return dropdown ? Array.from(dropdown.querySelectorAll('.ant-select-item-option')) : [];
+  };
+
+  let options = await waitFor(findOptions, 1500);
+  let match = options ? matchOptionElement(options, value, getOptionText) : null;
+
+  if (!match && selectRoot.classList.contains('ant-select-show-search')) {
+    setNativeValue(input, value);
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    await sleep(300);
+    options = await waitFor(findOptions, 1000);
+    match = options ? matchOptionElement(options, value, getOptionText) : null;
+  }
+
+  if (match) {
+    match.element.click();
+    await sleep(150);
+    return match.score;
+  }
+
+  pressKey(input, 'Escape');
+  logger.warn(`Ant Design select option not found: ${value}`);
+  throw new Error(`Option "${value}" not found in select (${options?.length ?? 0} options available)`);
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,31 @@
+import { CHAKRA_SELECTORS } from '@/shared/constants';
+import { existsDeep } from '../shadow-dom';
+import type { UILibraryAdapter } from './types';
+
+/**
+ * Chakra UI adapter
+ * Chakra styles native form elements, so only detection is library-specific
+ */
+export const chakraAdapter: UILibraryAdapter = {
+  name: 'chakra',
+
+  isPresent: () => existsDeep(CHAKRA_SELECTORS.root),
+
+  fieldSelectors: [
+    { selector: CHAKRA_SELECTORS.select, type: 'select' },
+    { selector: CHAKRA_SELECTORS.numberInput, type: 'number' },
+    { selector: CHAKRA_SELECTORS.textarea, type: 'textarea' },
+    { selector: CHAKRA_SELECTORS.checkbox, type: 'checkbox' },
+    { selector: CHAKRA_SELECTORS.radio, type: 'radio' },
+    { selector: CHAKRA_SELECTORS.switch, type: 'switch' },
+    { selector: CHAKRA_SELECTORS.textInput, type: 'text' },
+  ],
+
+  owns: (element) => element.closest('[class*="chakra-"]') !== null,
+
+  readValue: () => undefined,
+
+  getOptions: () => undefined,
+
+  fill: async () => false,
+};
@@ -0,0 +1,42 @@
+/**
+ * UI library adapter registry
+ * Adapters are picked per page based on which component libraries it renders
+ */
+import { logger } from '@/utils/logger';
+import { antDesignAdapter } from './ant-design';
+import { chakraAdapter } from './chakra';
+import { mantineAdapter } from './mantine';
+import { muiAdapter } from './mui';
+import type { UILibraryAdapter } from './types';
+
+export type { AdapterFieldSelector, UILibraryAdapter } from './types';
+
+const adapters: UILibraryAdapter[] = [mantineAdapter, antDesignAdapter, muiAdapter, chakraAdapter];
+
+/**
+ * Register an additional adapter (replaces an existing one with the same name)
+ */
+export function registerAdapter(adapter: UILibraryAdapter): void {
+  const index = adapters.findIndex((a) => a.name === adapter.name);
+  if (index >= 0) {
+    adapters[index] = adapter;
+  } else {
+    adapters.push(adapter);
+  }
+}
+
+/**
+ * Adapters whose library is present on the current page
+ */
+export function getActiveAdapters(): UILibraryAdapter[] {
+  const active = adapters.filter((adapter) => adapter.isPresent());
+  logger.log(`Active UI adapters: ${active.map((a) => a.name).join(', ') || 'none'}`);
+  return active;
+}
+
+/**
+ * Adapter of the library that rendered the element, if any
+ */
+export function getAdapterForElement(element: Element): UILibraryAdapter | undefined {
+  return adapters.find((adapter) => adapter.owns(element));
+}
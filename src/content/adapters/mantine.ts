@@ -0,0 +1,709 @@
+import type { FieldType } from '@/shared/types';
+import { MANTINE_SELECTORS } from '@/shared/constants';
+import { parseDateValue, splitDateRange } from '@/shared/date-format';
+import { OPTION_MATCH_THRESHOLD, findBestMatch } from '@/shared/text-matcher';
+import { logger } from '@/utils/logger';
+import { getDateInputCandidates } from '../date-detector';
+import { fillTextInput, pressKey, setNativeValue, typeText } from '../input-events';
+import { existsDeep } from '../shadow-dom';
+import type { UILibraryAdapter } from './types';
+import { lowestMatchScore, matchOptionElement, waitFor, type OptionMatch } from './utils';
+
+// Multi-value widget roots
+const MULTI_VALUE_ROOT = '.mantine-MultiSelect-root, .mantine-TagsInput-root';
+
+// Date picker roots (v7 and v8 class names)
+const DATE_PICKER_ROOT =
+  '.mantine-DatePickerInput-root, .mantine-DateInput-root, .mantine-DateTimePicker-root, ' +
+  '[class*="DatePickerInput"], [class*="DateInput"], [class*="DateTimePicker"]';
+
+/**
+ * Mantine adapter
+ */
+export const mantineAdapter: UILibraryAdapter = {
+  name: 'mantine',
+
+  isPresent: () => existsDeep(MANTINE_SELECTORS.root),
+
+  // Select-like and specialised inputs also carry .mantine-Input-input, so they come before plain text
+  fieldSelectors: [
+    { selector: MANTINE_SELECTORS.select, type: 'select' },
+    { selector: MANTINE_SELECTORS.autocomplete, type: 'select' },
+    { selector: MANTINE_SELECTORS.multiSelect, type: 'select', multiple: true },
+    { selector: MANTINE_SELECTORS.tagsInput, type: 'text', multiple: true },
+    { selector: MANTINE_SELECTORS.dateInput, type: 'date' },
+    { selector: MANTINE_SELECTORS.timeInput, type: 'date' },
+    { selector: MANTINE_SELECTORS.numberInput, type: 'number' },
+    { selector: MANTINE_SELECTORS.colorInput, type: 'text' },
+    { selector: MANTINE_SELECTORS.fileInput, type: 'file' },
+    { selector: MANTINE_SELECTORS.textarea, type: 'textarea' },
+    { selector: MANTINE_SELECTORS.checkbox, type: 'checkbox' },
+    { selector: MANTINE_SELECTORS.radio, type: 'radio' },
+    { selector: MANTINE_SELECTORS.switch, type: 'switch' },
+    { selector: MANTINE_SELECTORS.textInput, type: 'text' },
+  ],
+
+  owns: (element) => element.closest('[class*="mantine-"]') !== null,
+
+  readValue(element) {
+    // Multi-value widgets show their values as pills
+    const multiRoot = element.closest(MULTI_VALUE_ROOT);
+    return multiRoot ? readPills(multiRoot).join(', ') : undefined;
+  },
+
+  readOptionValue(element) {
+    // Select keeps the option value in a hidden input next to its wrapper
+    const root = element.closest('.mantine-Select-root');
+    const hidden = root?.querySelector('input[type="hidden"]') ?? root?.nextElementSibling;
+    return hidden instanceof HTMLInputElement && hidden.type === 'hidden' ? hidden.value || undefined : undefined;
+  },
+
+  getOptions(element) {
+    const wrapper = element.closest('.mantine-Select-root, .mantine-MultiSelect-root');
+    if (!wrapper) return undefined;
+
+    const options = wrapper.querySelectorAll('[data-combobox-option]');
+    if (options.length === 0) return undefined;
+    return Array.from(options).map((opt) => opt.textContent?.trim() || '');
+  },
+
+  async harvestOptions(element) {
+    if (!element.closest('.mantine-Select-root, .mantine-MultiSelect-root, .mantine-Autocomplete-root')) {
+      return undefined;
+    }
+
+    element.click();
+    const findOptions = () => {
+      const listboxId = element.getAttribute('aria-controls');
+      const dropdown = listboxId
+        ? document.getElementById(listboxId)
+        : document.querySelector('[data-combobox-dropdown]');
+      return dropdown ? Array.from(dropdown.querySelectorAll('[data-combobox-option]')) : [];
+    };
+    const options = (await waitFor(findOptions, 800)) ?? [];
+
+    const harvested = options
+      .map((option) => ({
+        label: option.textContent?.trim() || '',
+        group:
+          option.closest('.mantine-Combobox-group')?.querySelector('.mantine-Combobox-groupLabel')?.textContent?.trim() ||
+          undefined,
+      }))
+      .filter((option) => option.label);
+
+    pressKey(element, 'Escape');
+    element.blur();
+    await sleep(50);
+    return harvested;
+  },
+
+  async fill(element, type: FieldType, value) {
+    switch (type) {
+      case 'select': {
+        const selectRoot = element.closest('.mantine-Select-root');
+        if (selectRoot) {
+          return { matchScore: await fillMantineSelect(selectRoot as HTMLElement, value) };
+        }
+        // Autocomplete accepts free text
+        if (element.closest('.mantine-Autocomplete-root')) {
+          await fillTextInput(element as HTMLInputElement, value);
+          return true;
+        }
+        return false;
+      }
+
+      case 'number':
+        if (!element.closest('.mantine-NumberInput-root')) return false;
+        await fillMantineNumberInput(element as HTMLInputElement, value);
+        return true;
+
+      case 'date': {
+        if (element.closest('.mantine-TimeInput-root')) {
+          await fillMantineTimeInput(element as HTMLInputElement, value);
+          return true;
+        }
+        const datePicker = element.closest(DATE_PICKER_ROOT);
+        if (!datePicker) return false;
+        await fillMantineDateInput(datePicker, element as HTMLInputElement, value);
+        return true;
+      }
+
+      case 'switch': {
+        const switchRoot = element.closest('.mantine-Switch-root');
+        if (!switchRoot) return false;
+        await fillMantineSwitch(switchRoot, element as HTMLInputElement, value);
+        return true;
+      }
+
+      default:
+        return false;
+    }
+  },
+
+  async fillMultiple(element, values) {
+    const multiSelectRoot = element.closest('.mantine-MultiSelect-root');
+    if (multiSelectRoot) {
+      return { matchScore: await fillMantineMultiSelect(multiSelectRoot, element as HTMLInputElement, values) };
+    }
+
+    const tagsRoot = element.closest('.mantine-TagsInput-root');
+    if (tagsRoot) {
+      await fillMantineTagsInput(tagsRoot, element as HTMLInputElement, values);
+      return true;
+    }
+    return false;
+  },
+
+  async clear(element) {
+    const multiRoot = element.closest(MULTI_VALUE_ROOT);
+    if (multiRoot) {
+      await removePills(multiRoot, () => false);
+      return true;
+    }
+
+    const root = element.closest(`.mantine-Select-root, ${DATE_PICKER_ROOT}`);
+    if (!root) return false;
+
+    // Clearable widgets render a clear button in their right section
+    const clearButton = root.querySelector<HTMLElement>('.mantine-CloseButton-root, [class*="ClearButton"]');
+    if (clearButton) {
+      clearButton.click();
+      await sleep(100);
+      return true;
+    }
+
+    // Select deselects the checked option when it is clicked again (allowDeselect)
+    if (!root.classList.contains('mantine-Select-root')) return false;
+    element.click();
+    const checked = await waitFor(
+      () => document.querySelector<HTMLElement>('[data-combobox-option][data-checked="true"], [data-combobox-option][aria-selected="true"]'),
+      1000
+    );
+    if (!checked) {
+      pressKey(element, 'Escape');
+      return false;
+    }
+    checked.click();
+    await sleep(150);
+    return true;
+  },
+};
+
+/**
+ * Values shown as pills by MultiSelect/TagsInput
+ */
+function readPills(root: Element): string[] {
+  return Array.from(root.querySelectorAll('.mantine-Pill-label, [class*="Pill-label"]'))
+    .map((pill) => pill.textContent?.trim() || '')
+    .filter(Boolean);
+}
+
+/**
+ * Remove the pills whose label is not kept, with their remove buttons
+ */
+async function removePills(root: Element, keep: (label: string) => boolean): Promise<void> {
+  const pills = Array.from(root.querySelectorAll('.mantine-Pill-root, [class*="Pill-root"]'));
+
+  for (const pill of pills) {
+    const label = pill.querySelector('.mantine-Pill-label, [class*="Pill-label"]')?.textContent?.trim() || '';
+    if (!label || keep(label)) continue;
+
+    const remove = pill.querySelector<HTMLElement>('.mantine-Pill-remove, [class*="Pill-remove"]');
+    if (!remove) {
+      logger.warn(`Pill "${label}" has no remove button`);
+      continue;
+    }
+    remove.click();
+    await sleep(100);
+  }
+}
+
+/**
+ * Whether a value matches one of the listed labels (option labels may differ from the AI's wording)
+ */
+function isListed(value: string, labels: string[]): boolean {
+  return findBestMatch(value, labels, OPTION_MATCH_THRESHOLD) !== null;
+}
+
+/**
+ * Fill Mantine MultiSelect by picking each option from the dropdown
+ * Pills not in the list are removed first; searchable selects are filtered by typing when an option isn't listed
+ * Resolves the lowest match score of the picked options
+ */
+async function fillMantineMultiSelect(
+  root: Element,
+  input: HTMLInputElement,
+  values: string[]
+): Promise<number | undefined> {
+  const findOptions = () => {
+    const dropdown = document.querySelector('.mantine-MultiSelect-dropdown, [data-combobox-dropdown]');
+    return dropdown ? Array.from(dropdown.querySelectorAll('[data-combobox-option]')) : [];
+  };
+  const missing: string[] = [];
+  const scores: number[] = [];
+
+  await removePills(root, (label) => isListed(label, values));
+
+  for (const value of values) {
+    // Clicking a selected option would deselect it
+    if (isListed(value, readPills(root))) continue;
+
+    input.click();
+    let options = await waitFor(findOptions, 1500);
+    let match = options ? matchOptionElement(options, value) : null;
+
+    if (!match && !input.readOnly) {
+      setNativeValue(input, value);
+      input.dispatchEvent(new Event('input', { bubbles: true }));
+      await sleep(300);
+      options = await waitFor(findOptions, 1000);
+      match = options ? matchOptionElement(options, value) : null;
+    }
+
+    if (match) {
+      match.element.click();
+      scores.push(match.score);
+      await sleep(150);
+    } else {
+      missing.push(value);
+    }
+  }
+
+  pressKey(input, 'Escape');
+  if (missing.length > 0) {
+    throw new Error(`Options not found in multi-select: ${missing.map((v) => `"${v}"`).join(', ')}`);
+  }
+  return lowestMatchScore(scores);
+}
+
+/**
+ * Fill Mantine TagsInput by typing each value and committing it as a tag with Enter
+ * Tags not in the list are removed first
+ */
+async function fillMantineTagsInput(root: Element, input: HTMLInputElement, values: string[]): Promise<void> {
+  const wanted = values.map((value) => value.toLowerCase());
+  await removePills(root, (label) => wanted.includes(label.toLowerCase()));
+  input.focus();
+
+  for (const value of values) {
+    const tags = readPills(root).map((pill) => pill.toLowerCase());
+    if (tags.includes(value.toLowerCase())) continue;
+
+    setNativeValue(input, value);
+    input.dispatchEvent(new Event('input', { bubbles: true }));
+    await sleep(50);
+    pressKey(input, 'Enter');
+    await sleep(100);
+  }
+
+  // Close the suggestions dropdown TagsInput may have opened
+  pressKey(input, 'Escape');
+}
+
+/**
+ * Fill Mantine NumberInput (value is committed on blur)
+ */
+async function fillMantineNumberInput(element: HTMLInputElement, value: string): Promise<void> {
+  element.value = '';
+  setNativeValue(element, value);
+
+  element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
+
+  // Trigger blur to finalize (Mantine updates on blur)
+  element.dispatchEvent(new Event('blur', { bubbles: true }));
+
+  await sleep(50);
+}
+
+/**
+ * Fill Mantine TimeInput (a native time input, so the canonical HH:mm is set directly)
+ */
+async function fillMantineTimeInput(element: HTMLInputElement, value: string): Promise<void> {
+  element.focus();
+  setNativeValue(element, value);
+
+  element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
+  element.dispatchEvent(new Event('blur', { bubbles: true }));
+
+  await sleep(50);
+}
+
+/**
+ * Fill Mantine DatePickerInput/DateInput/DateTimePicker
+ * Ranges ("start ~ end") click both days in order; datetimes ("dateTtime") also set the time controls
+ */
+async function fillMantineDateInput(
+  datePicker: Element,
+  element: HTMLInputElement,
+  dateStr: string
+): Promise<void> {
+  const range = splitDateRange(dateStr);
+  const [day, time] = dateStr.split('T');
+  const days = range ? [range.start, range.end] : [day];
+
+  // For Mantine 8.x, we need to trigger calendar and select date
+  // First, try clicking the input to open the calendar popover
+  const inputWrapper = datePicker.querySelector(
+    '.mantine-DatePickerInput-input, .mantine-DateInput-input, .mantine-DateTimePicker-input, input'
+  );
+  if (inputWrapper) {
+    (inputWrapper as HTMLElement).click();
+    await sleep(300);
+  } else {
+    element.click();
+    await sleep(300);
+  }
+
+  // Look for calendar popover (Mantine 8.x uses Popover)
+  // Wait for calendar to fully render
+  let calendar: Element | null = null;
+  for (let waited = 0; waited < 500; waited += 100) {
+    const popover = document.querySelector('[data-floating-ui-portal], .mantine-Popover-dropdown');
+    calendar = popover?.querySelector('[class*="Calendar"], [class*="DatePicker-calendar"]') ||
+               document.querySelector('.mantine-Calendar-calendar, [class*="Calendar-month"]');
+    if (calendar) break;
+    await sleep(100);
+  }
+
+  if (calendar) {
+    // Range pickers take the start click, then the end click
+    let success = true;
+    for (const target of days) {
+      success = success && (await selectDateInCalendar(calendar as HTMLElement, target));
+      await sleep(150);
+    }
+
+    if (success && time) {
+      success = await fillPickerTime(time);
+    }
+
+    if (success) {
+      await sleep(100);
+      // DateTimePicker commits with its submit button; other pickers close on Escape
+      const submit = document.querySelector<HTMLElement>('.mantine-Popover-dropdown [class*="submitButton"]');
+      if (submit) {
+        submit.click();
+      } else {
+        pressKey(document, 'Escape');
+      }
+      await sleep(100);
+      return;
+    }
+  }
+
+  // Fallback: close any open calendar first
+  pressKey(document, 'Escape');
+  await sleep(100);
+
+  // Type the date in the picker's own format, then canonical, then the page locale's format
+  const formatsToTry = getDateInputCandidates(element, dateStr);
+
+  element.focus();
+  await sleep(50);
+  element.value = '';
+
+  for (const format of formatsToTry) {
+    setNativeValue(element, format);
+
+    element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
+    pressKey(element, 'Enter');
+    element.dispatchEvent(new Event('blur', { bubbles: true }));
+
+    await sleep(100);
+
+    // Check if value was accepted (not cleared)
+    if (element.value && element.value !== '') {
+      logger.log(`Date filled with format: ${format}`);
+      return;
+    }
+  }
+}
+
+/**
+ * Set the time controls of an open DateTimePicker dropdown
+ * v7 renders a native time input, v8 a TimePicker with separate hour and minute fields
+ */
+async function fillPickerTime(time: string): Promise<boolean> {
+  const dropdown = document.querySelector('.mantine-Popover-dropdown');
+  if (!dropdown) return false;
+
+  const timeInput = dropdown.querySelector<HTMLInputElement>('input[type="time"]');
+  if (timeInput) {
+    await fillMantineTimeInput(timeInput, time);
+    return true;
+  }
+
+  const fields = dropdown.querySelectorAll<HTMLInputElement>('input[class*="TimePicker-field"]');
+  if (fields.length < 2) return false;
+
+  const [hours, minutes] = time.split(':');
+  await typeText(fields[0], hours, 0);
+  await typeText(fields[1], minutes, 0);
+  await sleep(100);
+  return true;
+}
+
+/**
+ * Select date in Mantine calendar (v7 and v8 compatible)
+ * Simplified approach: navigate to correct month then click day
+ */
+async function selectDateInCalendar(calendar: HTMLElement, dateStr: string): Promise<boolean> {
+  const date = parseDateValue(dateStr);
+  if (!date?.year || !date.month || !date.day) return false;
+
+  const targetYear = date.year;
+  const targetMonth = date.month - 1; // 0-indexed
+  const targetDay = date.day;
+
+  // Try to navigate to the correct month first
+  // Look for the header that shows current month/year
+  const headerLevel = calendar.querySelector(
+    '[class*="calendarHeaderLevel"], [class*="CalendarHeader"] button, ' +
+    '.mantine-DatePicker-calendarHeaderLevel, .mantine-Calendar-calendarHeaderLevel'
+  );
+
+  if (headerLevel) {
+    // Get current displayed month/year from header
+    const headerText = headerLevel.textContent?.trim() || '';
+    logger.log(`Calendar header: ${headerText}`);
+
+    // Navigate using prev/next buttons to get to correct month
+    const prevBtn = calendar.querySelector('[class*="calendarHeaderControl"]:first-child, [data-previous], [aria-label*="Previous"]');
+    const nextBtn = calendar.querySelector('[class*="calendarHeaderControl"]:last-child, [data-next], [aria-label*="Next"]');
+
+    // Simple navigation: use prev/next buttons to reach target month
+    let attempts = 0;
+    const maxAttempts = 24; // 2 years worth of months
+
+    while (attempts < maxAttempts) {
+      // Check if we can find the target day button
+      const dayButtons = calendar.querySelectorAll(
+        '[class*="Day-day"], [data-date], .mantine-DatePicker-day, .mantine-Calendar-day, ' +
+        'button[class*="day"]:not([class*="outside"])'
+      );
+
+      for (const btn of dayButtons) {
+        const dataDate = btn.getAttribute('data-date');
+        const dayText = btn.textContent?.trim();
+        const isOutside = btn.getAttribute('data-outside') === 'true' ||
+                          btn.classList.contains('mantine-DatePicker-day--outside') ||
+                          btn.hasAttribute('data-outside');
+
+        // Check if this button matches our target date
+        if (dataDate === dateStr) {
+          (btn as HTMLElement).click();
+          logger.log(`Selected date by data-date: ${dateStr}`);
+          return true;
+        }
+
+        // Check day number matches and not outside current month
+        if (!isOutside && dayText === targetDay.toString()) {
+          // Verify we're in the correct month by checking header
+          const currentHeader = calendar.querySelector(
+            '[class*="calendarHeaderLevel"], .mantine-DatePicker-calendarHeaderLevel'
+          );
+          const currentHeaderText = currentHeader?.textContent?.toLowerCase() || '';
+
+          // Check if header contains target month name
+          const monthNames = ['january', 'february', 'march', 'april', 'may', 'june',
+                              'july', 'august', 'september', 'october', 'november', 'december',
+                              '1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'];
+          const targetMonthName = monthNames[targetMonth]?.toLowerCase();
+          const targetMonthKr = monthNames[targetMonth + 12];
+
+          if (currentHeaderText.includes(targetYear.toString()) &&
+              (currentHeaderText.includes(targetMonthName) || currentHeaderText.includes(targetMonthKr))) {
+            (btn as HTMLElement).click();
+            logger.log(`Selected date by day number: ${targetDay}`);
+            return true;
+          }
+        }
+      }
+
+      // Need to navigate - determine direction
+      const currentHeader = calendar.querySelector('[class*="calendarHeaderLevel"]');
+      const currentText = currentHeader?.textContent || '';
+
+      // Parse current month/year from header (e.g., "January 2025" or "2025년 1월")
+      const yearMatch = currentText.match(/\d{4}/);
+      const currentYear = yearMatch ? parseInt(yearMatch[0]) : new Date().getFullYear();
+
+      // Determine if we need to go forward or backward
+      const currentMonthIndex = getMonthIndexFromHeader(currentText);
+      const currentDate = new Date(currentYear, currentMonthIndex, 1);
+      const targetDate = new Date(targetYear, targetMonth, 1);
+
+      if (currentDate < targetDate && nextBtn) {
+        (nextBtn as HTMLElement).click();
+        await sleep(150);
+      } else if (currentDate > targetDate && prevBtn) {
+        (prevBtn as HTMLElement).click();
+        await sleep(150);
+      } else {
+        // We're in the right month, try clicking the day again
+        const dayButtons = calendar.querySelectorAll('[class*="Day-day"], [data-date], button[class*="day"]');
+        for (const btn of dayButtons) {
+          const isOutside = btn.getAttribute('data-outside') === 'true';
+          const dayText = btn.textContent?.trim();
+          if (!isOutside && dayText === targetDay.toString()) {
+            (btn as HTMLElement).click();
+            logger.log(`Selected date on final attempt: ${targetDay}`);
+            return true;
+          }
+        }
+        break;
+      }
+
+      attempts++;
+    }
+  }
+
+  // Fallback: try clicking any visible day button that matches
+  const allDayButtons = calendar.querySelectorAll('button');
+  for (const btn of allDayButtons) {
+    const dayText = btn.textContent?.trim();
+    if (dayText === targetDay.toString() && !btn.hasAttribute('data-outside')) {
+      (btn as HTMLElement).click();
+      logger.log(`Selected date via fallback: ${targetDay}`);
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Get month index (0-11) from calendar header text
+ */
+function getMonthIndexFromHeader(headerText: string): number {
+  const text = headerText.toLowerCase();
+
+  // English month names
+  const englishMonths = ['january', 'february', 'march', 'april', 'may', 'june',
+                         'july', 'august', 'september', 'october', 'november', 'december'];
+  for (let i = 0; i < englishMonths.length; i++) {
+    if (text.includes(englishMonths[i])) return i;
+  }
+
+  // Korean month names (1월, 2월, etc.)
+  const koreanMatch = text.match(/(\d+)월/);
+  if (koreanMatch) {
+    return parseInt(koreanMatch[1]) - 1;
+  }
+
+  return new Date().getMonth();
+}
+
+/**
+ * Fill Mantine Select by clicking and selecting option
+ * Includes retry logic for API-loaded options; resolves the match score of the clicked option
+ */
+async function fillMantineSelect(wrapper: HTMLElement, value: string): Promise<number> {
+  const input = wrapper.querySelector('.mantine-Select-input') as HTMLElement;
+  if (!input) {
+    throw new Error('Mantine Select input not found');
+  }
+
+  const maxRetries = 3;
+  let lastError: Error | null = null;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      // Click to open dropdown
+      input.click();
+      await sleep(200);
+
+      // Wait for dropdown to appear (may need to load from API)
+      let dropdown: Element | null = null;
+      const dropdownWaitTime = attempt * 500; // Increase wait time on retries
+
+      for (let waited = 0; waited < dropdownWaitTime; waited += 100) {
+        dropdown = document.querySelector('.mantine-Select-dropdown, [data-combobox-dropdown]');
+        if (dropdown) break;
+        await sleep(100);
+      }
+
+      if (!dropdown) {
+        throw new Error('Mantine Select dropdown not found');
+      }
+
+      // Wait for options to load (API calls may take time)
+      let options: NodeListOf<Element> | null = null;
+      const optionsWaitTime = attempt * 800; // Longer wait for API-loaded options
+
+      for (let waited = 0; waited < optionsWaitTime; waited += 150) {
+        options = dropdown.querySelectorAll('[data-combobox-option]');
+        if (options && options.length > 0) break;
+        await sleep(150);
+      }
+
+      if (!options || options.length === 0) {
+        // Close dropdown and retry
+        document.body.click();
+        await sleep(100);
+        throw new Error('No options available in dropdown');
+      }
+
+      // Option value (data-value) exactly, otherwise the closest option text
+      const valueLower = value.toLowerCase().trim();
+      const byValue = Array.from(options).find(
+        (opt) => opt.getAttribute('data-value')?.toLowerCase() === valueLower
+      ) as HTMLElement | undefined;
+      const matched: OptionMatch | null = byValue
+        ? { element: byValue, score: 1 }
+        : matchOptionElement(Array.from(options), value);
+
+      if (matched) {
+        matched.element.click();
+        await sleep(150);
+        return matched.score; // Success!
+      }
+
+      // Close dropdown before retry
+      document.body.click();
+      await sleep(100);
+      throw new Error(`Option "${value}" not found in select (${options.length} options available)`);
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      logger.warn(`Select fill attempt ${attempt} failed:`, lastError.message);
+
+      if (attempt < maxRetries) {
+        await sleep(300 * attempt); // Exponential backoff
+      }
+    }
+  }
+
+  // Close any open dropdown
+  document.body.click();
+  throw lastError || new Error(`Failed to fill select with value: ${value}`);
+}
+
+/**
+ * Fill Mantine Switch (hidden input + track element)
+ */
+async function fillMantineSwitch(
+  switchRoot: Element,
+  element: HTMLInputElement,
+  value: string
+): Promise<void> {
+  const shouldCheck =
+    value.toLowerCase() === 'true' || value === '1' || value.toLowerCase() === 'yes';
+
+  // Find the track element which handles the click
+  const track = switchRoot.querySelector('.mantine-Switch-track') as HTMLElement;
+
+  if (track && element.checked !== shouldCheck) {
+    track.click();
+    await sleep(100);
+  }
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
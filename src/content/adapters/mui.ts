@@ -0,0 +1,189 @@
+import { MUI_SELECTORS } from '@/shared/constants';
+import { fillTextInput, pressKey } from '../input-events';
+import { existsDeep, getElementRoot } from '../shadow-dom';
+import type { UILibraryAdapter } from './types';
+import { matchOptionElement, waitFor } from './utils';
+
+/**
+ * MUI (Material UI) adapter
+ */
+export const muiAdapter: UILibraryAdapter = {
+  name: 'mui',
+
+  isPresent: () => existsDeep(MUI_SELECTORS.root),
+
+  fieldSelectors: [
+    { selector: MUI_SELECTORS.select, type: 'select' },
+    { selector: MUI_SELECTORS.autocomplete, type: 'select' },
+    { selector: MUI_SELECTORS.dateInput, type: 'date' },
+    { selector: MUI_SELECTORS.textarea, type: 'textarea' },
+    { selector: MUI_SELECTORS.checkbox, type: 'checkbox' },
+    { selector: MUI_SELECTORS.radio, type: 'radio' },
+    { selector: MUI_SELECTORS.switch, type: 'switch' },
+    { selector: MUI_SELECTORS.textInput, type: 'text' },
+  ],
+
+  ignoreSelector: MUI_SELECTORS.ignore,
+
+  owns: (element) =>
+    element.closest('.MuiInputBase-root, .MuiSelect-select, .MuiCheckbox-root, .MuiRadio-root, .MuiSwitch-root') !== null,
+
+  readValue(element, type) {
+    if (type !== 'select' || !element.classList.contains('MuiSelect-select')) return undefined;
+
+    // The hidden native input holds the selected value, the div shows its label
+    const nativeInput = element.parentElement?.querySelector('.MuiSelect-nativeInput') as HTMLInputElement | null;
+    if (!nativeInput?.value) return '';
+    return element.textContent?.replace(/\u200B/g, '').trim() || nativeInput.value;
+  },
+
+  readOptionValue(element) {
+    if (!element.classList.contains('MuiSelect-select')) return undefined;
+    const nativeInput = element.parentElement?.querySelector('.MuiSelect-nativeInput') as HTMLInputElement | null;
+    return nativeInput?.value || undefined;
+  },
+
+  // Options are only rendered while the menu is open
+  getOptions: () => undefined,
+
+  async harvestOptions(element) {
+    if (!element.classList.contains('MuiSelect-select') && !element.classList.contains('MuiAutocomplete-input')) {
+      return undefined;
+    }
+
+    // Both open on mousedown; Select lists options in a menu, Autocomplete in the listbox it points at
+    element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, button: 0 }));
+    const findOptions = () => {
+      const listboxId = element.getAttribute('aria-controls');
+      const listbox = listboxId
+        ? getElementRoot(element).getElementById(listboxId)
+        : document.querySelector('.MuiMenu-list[role="listbox"]');
+      return listbox ? Array.from(listbox.querySelectorAll('[role="option"]')) : [];
+    };
+    const options = (await waitFor(findOptions, 800)) ?? [];
+
+    const harvested = options
+      .map((option) => ({ label: option.textContent?.trim() || '', group: getMuiGroupLabel(option) }))
+      .filter((option) => option.label);
+
+    const listbox = document.querySelector('.MuiMenu-list[role="listbox"]');
+    pressKey(listbox || element, 'Escape');
+    element.blur();
+    await sleep(50);
+    return harvested;
+  },
+
+  async fill(element, type, value) {
+    if (type !== 'select') return false;
+
+    if (element.classList.contains('MuiSelect-select')) {
+      return { matchScore: await fillMuiSelect(element, value) };
+    }
+
+    if (element.classList.contains('MuiAutocomplete-input')) {
+      return { matchScore: await fillMuiAutocomplete(element as HTMLInputElement, value) };
+    }
+
+    return false;
+  },
+
+  async clear(element) {
+    const clearIndicator = element
+      .closest('.MuiAutocomplete-root')
+      ?.querySelector<HTMLElement>('.MuiAutocomplete-clearIndicator');
+    if (clearIndicator) {
+      clearIndicator.click();
+      await sleep(100);
+      return true;
+    }
+
+    if (!element.classList.contains('MuiSelect-select')) return false;
+
+    // Select is emptied through its empty option ("None"), when it has one
+    element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, button: 0 }));
+    const emptyOption = await waitFor(
+      () => document.querySelector<HTMLElement>('.MuiMenu-list[role="listbox"] [role="option"][data-value=""]'),
+      1000
+    );
+    if (!emptyOption) {
+      const listbox = document.querySelector('.MuiMenu-list[role="listbox"]');
+      pressKey(listbox || document, 'Escape');
+      return false;
+    }
+    emptyOption.click();
+    await sleep(150);
+    return true;
+  },
+};
+
+/**
+ * Group of an MUI option: the ListSubheader before it (Select) or the group label of its list (Autocomplete)
+ */
+function getMuiGroupLabel(option: Element): string | undefined {
+  const autocompleteGroup = option.closest('.MuiAutocomplete-groupUl')?.previousElementSibling;
+  if (autocompleteGroup?.classList.contains('MuiAutocomplete-groupLabel')) {
+    return autocompleteGroup.textContent?.trim() || undefined;
+  }
+
+  for (let sibling = option.previousElementSibling; sibling; sibling = sibling.previousElementSibling) {
+    if (sibling.classList.contains('MuiListSubheader-root')) return sibling.textContent?.trim() || undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Fill MUI Select by opening the menu and clicking the option; resolves the option's match score
+ */
+async function fillMuiSelect(element: HTMLElement, value: string): Promise<number> {
+  // MUI Select opens on mousedown of the primary button
+  element.dispatchEvent(new MouseEvent('mousedown', { bubbles: true, cancelable: true, button: 0 }));
+
+  const options = await waitFor(
+    () => Array.from(document.querySelectorAll('.MuiMenu-list[role="listbox"] [role="option"], .MuiPopover-paper [role="option"]')),
+    1500
+  );
+  const match = options ? matchOptionElement(options, value) : null;
+
+  if (match) {
+    match.element.click();
+    await sleep(150);
+    return match.score;
+  }
+
+  const listbox = document.querySelector('.MuiMenu-list[role="listbox"]');
+  pressKey(listbox || document, 'Escape');
+  throw new Error(`Option "${value}" not found in select (${options?.length ?? 0} options available)`);
+}
+
+/**
+ * Fill MUI Autocomplete by typing to filter, then clicking the best option
+ * Free-solo autocompletes keep the typed text when nothing matches (no match score then)
+ */
+async function fillMuiAutocomplete(input: HTMLInputElement, value: string): Promise<number | undefined> {
+  await fillTextInput(input, value);
+
+  const findOptions = () => {
+    const listboxId = input.getAttribute('aria-controls');
+    const listbox = listboxId ? getElementRoot(input).getElementById(listboxId) : null;
+    return listbox ? Array.from(listbox.querySelectorAll('[role="option"]')) : [];
+  };
+
+  const options = await waitFor(findOptions, 1000);
+  const match = options ? matchOptionElement(options, value) : null;
+
+  if (!match) {
+    pressKey(input, 'Escape');
+    return undefined;
+  }
+
+  match.element.click();
+  await sleep(150);
+  return match.score;
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
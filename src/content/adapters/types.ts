@@ -0,0 +1,54 @@
+import type { FieldType } from '@/shared/types';
+
+/**
+ * Selector for one kind of widget and the field type it is detected as
+ */
+export interface AdapterFieldSelector {
+  selector: string;
+  type: FieldType;
+  multiple?: boolean; // Widget holds several values
+}
+
+/**
+ * Option read from an opened dropdown
+ */
+export interface SelectOption {
+  label: string;
+  group?: string; // Label of the option group it is listed under
+}
+
+/**
+ * Outcome of filling a widget: false when it was not filled, otherwise true
+ * or the similarity (0-1) of the option chosen for the value
+ */
+export type FillOutcome = boolean | { matchScore?: number };
+
+/**
+ * UI component library adapter
+ * Each library (Mantine, Ant Design, MUI...) implements detection, reading, options and filling once
+ */
+export interface UILibraryAdapter {
+  name: string;
+  // Whether the current page renders components of this library
+  isPresent(): boolean;
+  // Widget selectors in detection order (more specific widgets first)
+  fieldSelectors: AdapterFieldSelector[];
+  // Helper elements of library widgets that must not be detected as generic inputs
+  ignoreSelector?: string;
+  // Whether the element belongs to a widget of this library
+  owns(element: Element): boolean;
+  // Current value shown by the widget, or undefined to use the generic reader
+  readValue(element: HTMLElement, type: FieldType): string | undefined;
+  // Value of the selected option when the widget keeps it apart from the label it shows (hidden input)
+  readOptionValue?(element: HTMLElement): string | undefined;
+  // Options listed by a select-like widget, or undefined to use the generic reader
+  getOptions(element: HTMLElement): string[] | undefined;
+  // Open a select-like widget briefly, read its options and close it again (options rendered only while open)
+  harvestOptions?(element: HTMLElement): Promise<SelectOption[] | undefined>;
+  // Fill the widget; resolves false when the generic filler should handle it instead
+  fill(element: HTMLElement, type: FieldType, value: string): Promise<FillOutcome>;
+  // Fill a multi-value widget with every value; resolves false when the generic filler should handle it
+  fillMultiple?(element: HTMLElement, values: string[]): Promise<FillOutcome>;
+  // Empty the widget (undo of a field that had no value); resolves false when it can't be cleared this way
+  clear?(element: HTMLElement, type: FieldType): Promise<boolean>;
+}
@@ -0,0 +1,75 @@
+/**
+ * Helpers shared by UI-library adapters
+ */
+import { OPTION_MATCH_THRESHOLD, findBestMatch } from '@/shared/text-matcher';
+import type { FillOutcome } from './types';
+
+/**
+ * Parse a boolean-like fill value (checkbox/switch)
+ */
+export function isTruthyValue(value: string): boolean {
+  const normalized = value.toLowerCase().trim();
+  return normalized === 'true' || normalized === '1' || normalized === 'yes';
+}
+
+/**
+ * Option element chosen for a value and its similarity (0-1)
+ */
+export interface OptionMatch {
+  element: HTMLElement;
+  score: number;
+}
+
+/**
+ * Find the option whose text is closest to the value (fuzzy, above the option match threshold)
+ */
+export function matchOptionElement(
+  options: Element[],
+  value: string,
+  getText: (option: Element) => string = (option) => option.textContent || ''
+): OptionMatch | null {
+  const best = findBestMatch(
+    value,
+    options.map((option) => getText(option).trim()),
+    OPTION_MATCH_THRESHOLD
+  );
+  return best ? { element: options[best.index] as HTMLElement, score: best.score } : null;
+}
+
+/**
+ * Match score reported by a fill (undefined when no option was matched)
+ */
+export function getMatchScore(outcome: FillOutcome): number | undefined {
+  return typeof outcome === 'object' ? outcome.matchScore : undefined;
+}
+
+/**
+ * Weakest of several option matches: a multi-value fill is only as reliable as its worst pick
+ */
+export function lowestMatchScore(scores: (number | undefined)[]): number | undefined {
+  const known = scores.filter((score): score is number => score !== undefined);
+  return known.length > 0 ? Math.min(...known) : undefined;
+}
+
+/**
+ * Poll until the finder returns a non-empty result or the timeout elapses
+ */
+export async function waitFor<T>(
+  find: () => T | null | undefined,
+  timeoutMs: number,
+  intervalMs = 100
+): Promise<T | null> {
+  for (let waited = 0; waited <= timeoutMs; waited += intervalMs) {
+    const result = find();
+    if (result && (!Array.isArray(result) || result.length > 0)) return result;
+    await sleep(intervalMs);
+  }
+  return null;
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -12,6 +12,16 @@ interface MenuItem {
   color?: string;
 }
 
+// Row of the review panel
+export interface ReviewItem {
+  id: string;
+  label: string;
+  type: string;
+  currentValue: string;
+  proposedValue: string;
+  options?: string[];
+}
+
 interface MenuState {
   isOpen: boolean;
   isDragging: boolean;
@@ -839,13 +849,148 @@ function getMenuStyles(): string {
       background: rgba(59, 130, 246, 0.5);
     }
 
+    /* Review panel */
+    .ai-review-panel {
+      position: fixed;
+      top: 50%;
+      left: 50%;
+      transform: translate(-50%, -50%);
+      width: min(760px, calc(100vw - 40px));
+      max-height: calc(100vh - 80px);
+      display: flex;
+      flex-direction: column;
+      background: rgba(15, 23, 42, 0.97);
+      backdrop-filter: blur(16px);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      border-radius: 12px;
+      box-shadow: 0 16px 48px rgba(0, 0, 0, 0.4);
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      font-size: 13px;
+      color: #E2E8F0;
+      z-index: 1000000;
+      animation: slideUp 0.3s ease;
+    }
+
+    .ai-review-panel .review-header {
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+      padding: 12px 16px;
+      background: rgba(59, 130, 246, 0.2);
+      color: #60A5FA;
+      font-weight: 600;
+      border-bottom: 1px solid rgba(255, 255, 255, 0.1);
+    }
+
+    .ai-review-panel .review-content {
+      overflow-y: auto;
+      padding: 8px 16px;
+    }
+
+    .ai-review-panel .review-table {
+      width: 100%;
+      border-collapse: collapse;
+    }
+
+    .ai-review-panel th {
+      text-align: left;
+      font-weight: 500;
+      color: #94A3B8;
+      padding: 6px 8px;
+    }
+
+    .ai-review-panel td {
+      padding: 6px 8px;
+      border-top: 1px solid rgba(255, 255, 255, 0.06);
+      vertical-align: middle;
+    }
+
+    .ai-review-panel tr.excluded td {
+      opacity: 0.4;
+    }
+
+    .ai-review-panel tr.regenerating .review-value {
+      opacity: 0.5;
+    }
+
+    .ai-review-panel .review-type {
+      font-size: 11px;
+      color: #64748B;
+    }
+
+    .ai-review-panel .review-current {
+      color: #94A3B8;
+      max-width: 160px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+
+    .ai-review-panel .review-value {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 6px 8px;
+      border-radius: 6px;
+      border: 1px solid rgba(255, 255, 255, 0.15);
+      background: rgba(255, 255, 255, 0.05);
+      color: white;
+      font-size: 13px;
+    }
+
+    .ai-review-panel .review-regenerate {
+      background: none;
+      border: none;
+      color: #60A5FA;
+      font-size: 16px;
+      cursor: pointer;
+      padding: 2px 6px;
+      border-radius: 4px;
+    }
+
+    .ai-review-panel .review-regenerate:hover {
+      background: rgba(59, 130, 246, 0.15);
+    }
+
+    .ai-review-panel .review-regenerate:disabled {
+      opacity: 0.4;
+      cursor: default;
+    }
+
+    .ai-review-panel .review-footer {
+      display: flex;
+      justify-content: flex-end;
+      gap: 8px;
+      padding: 12px 16px;
+      border-top: 1px solid rgba(255, 255, 255, 0.1);
+    }
+
+    .ai-review-panel .review-btn {
+      padding: 8px 18px;
+      border-radius: 8px;
+      border: none;
+      font-size: 13px;
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .ai-review-panel .review-btn.primary {
+      background: linear-gradient(135deg, #3B82F6 0%, #2563EB 100%);
+      color: white;
+    }
+
+    .ai-review-panel .review-btn.secondary {
+      background: rgba(255, 255, 255, 0.08);
+      color: #E2E8F0;
+    }
+
     /* Reduced motion preference */
     @media (prefers-reduced-motion: reduce) {
       .menu-toggle,
       .menu-item,
       .ai-toast,
       .ai-cancel-btn,
-      .ai-debug-panel {
+      .ai-debug-panel,
+      .ai-review-panel {
         transition-duration: 0.01ms !important;
         animation-duration: 0.01ms !important;
       }
@@ -946,3 +1091,144 @@ export function hideCancelButton(): void {
   const cancelBtn = document.querySelector('.ai-cancel-btn');
   if (cancelBtn) cancelBtn.remove();
 }
+
+/**
+ * Show the review panel for proposed values
+ * Resolves with the ticked (and possibly edited) values, or null when cancelled
+ * onRegenerate asks for a new proposal for a single field
+ */
+export function showReviewPanel(
+  items: ReviewItem[],
+  onRegenerate: (id: string, rejectedValue: string) => Promise<string | undefined>
+): Promise<Record<string, string> | null> {
+  hideReviewPanel();
+
+  return new Promise((resolve) => {
+    const panel = document.createElement('div');
+    panel.className = 'ai-review-panel';
+    panel.innerHTML = `
+      <div class="review-header">
+        <span></span>
+        <button class="debug-close" data-action="cancel" title="Cancel">×</button>
+      </div>
+      <div class="review-content">
+        <table class="review-table">
+          <thead>
+            <tr><th></th><th>Field</th><th>Current</th><th>Proposed</th><th></th></tr>
+          </thead>
+          <tbody></tbody>
+        </table>
+      </div>
+      <div class="review-footer">
+        <button class="review-btn secondary" data-action="cancel">Cancel</button>
+        <button class="review-btn primary" data-action="apply">Apply</button>
+      </div>
+    `;
+    (panel.querySelector('.review-header span') as HTMLElement).textContent = `Review ${items.length} values`;
+
+    const tbody = panel.querySelector('tbody') as HTMLTableSectionElement;
+    for (const item of items) {
+      tbody.appendChild(createReviewRow(item, onRegenerate));
+    }
+
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') finish(null);
+    };
+
+    const finish = (result: Record<string, string> | null) => {
+      document.removeEventListener('keydown', onKeyDown, true);
+      panel.remove();
+      resolve(result);
+    };
+
+    document.addEventListener('keydown', onKeyDown, true);
+
+    panel.querySelectorAll('[data-action="cancel"]').forEach((btn) => {
+      btn.addEventListener('click', () => finish(null));
+    });
+
+    panel.querySelector('[data-action="apply"]')?.addEventListener('click', () => {
+      const values: Record<string, string> = {};
+      tbody.querySelectorAll<HTMLTableRowElement>('tr[data-field-id]').forEach((row) => {
+        const include = row.querySelector('.review-include') as HTMLInputElement;
+        const input = row.querySelector('.review-value') as HTMLInputElement;
+        if (include.checked && row.dataset.fieldId) {
+          values[row.dataset.fieldId] = input.value;
+        }
+      });
+      finish(values);
+    });
+
+    document.body.appendChild(panel);
+  });
+}
+
+/**
+ * Hide the review panel
+ */
+export function hideReviewPanel(): void {
+  const panel = document.querySelector('.ai-review-panel');
+  if (panel) panel.remove();
+}
+
+/**
+ * Build one review row (page text is set through textContent/value, never as HTML)
+ */
+function createReviewRow(
+  item: ReviewItem,
+  onRegenerate: (id: string, rejectedValue: string) => Promise<string | undefined>
+): HTMLTableRowElement {
+  const row = document.createElement('tr');
+  row.dataset.fieldId = item.id;
+  row.innerHTML = `
+    <td><input type="checkbox" class="review-include" checked></td>
+    <td><div class="review-label"></div><div class="review-type"></div></td>
+    <td class="review-current"></td>
+    <td><input type="text" class="review-value"></td>
+    <td><button class="review-regenerate" title="Regenerate">↻</button></td>
+  `;
+
+  (row.querySelector('.review-label') as HTMLElement).textContent = item.label;
+  (row.querySelector('.review-type') as HTMLElement).textContent = item.type;
+  (row.querySelector('.review-current') as HTMLElement).textContent = item.currentValue || '—';
+
+  const include = row.querySelector('.review-include') as HTMLInputElement;
+  const input = row.querySelector('.review-value') as HTMLInputElement;
+  input.value = item.proposedValue;
+  include.addEventListener('change', () => row.classList.toggle('excluded', !include.checked));
+
+  // Options are offered as suggestions while editing
+  if (item.options?.length) {
+    const datalist = document.createElement('datalist');
+    datalist.id = `ai-review-options-${item.id}`;
+    for (const option of item.options) {
+      const el = document.createElement('option');
+      el.value = option;
+      datalist.appendChild(el);
+    }
+    row.appendChild(datalist);
+    input.setAttribute('list', datalist.id);
+  }
+
+  const regenerate = row.querySelector('.review-regenerate') as HTMLButtonElement;
+  regenerate.addEventListener('click', async () => {
+    regenerate.disabled = true;
+    row.classList.add('regenerating');
+    try {
+      const value = await onRegenerate(item.id, input.value);
+      if (value !== undefined) {
+        input.value = value;
+        include.checked = true;
+        row.classList.remove('excluded');
+      }
+    } catch (error) {
+      logger.warn(`Regenerate failed for ${item.id}:`, error);
+      showMenuToast('Could not regenerate value', 'error');
+    } finally {
+      regenerate.disabled = false;
+      row.classList.remove('regenerating');
+    }
+  });
+
+  return row;
+}
@@ -0,0 +1,95 @@
+/**
+ * Date detector
+ * Works out what a date widget holds (date, datetime, time, month, year, range) and the format it shows,
+ * from the native input type, the current value, the placeholder, Mantine's valueFormat and the page locale
+ */
+import { formatForField, getLocaleDateFormat, inferDateFormat, splitDateRange } from '@/shared/date-format';
+import type { DateKind } from '@/shared/types';
+import { getPageLocale } from './form-filler';
+
+export interface DateFieldInfo {
+  kind: DateKind;
+  format?: string; // Undefined for native inputs, which take the canonical format
+}
+
+// Native input types and the kind of value they hold
+const NATIVE_DATE_KINDS: Record<string, DateKind> = {
+  date: 'date',
+  'datetime-local': 'datetime',
+  time: 'time',
+  month: 'month',
+};
+
+// Mantine pickers and their default valueFormat (the props themselves live in the page world)
+const MANTINE_PICKERS: { selector: string; kind: DateKind; format: string }[] = [
+  { selector: '[class*="DateTimePicker"]', kind: 'datetime', format: 'DD/MM/YYYY HH:mm' },
+  { selector: '[class*="MonthPickerInput"]', kind: 'month', format: 'MMMM YYYY' },
+  { selector: '[class*="YearPickerInput"]', kind: 'year', format: 'YYYY' },
+  { selector: '[class*="DatePickerInput"], [class*="DateInput"]', kind: 'date', format: 'MMMM D, YYYY' },
+];
+
+/**
+ * Detect the kind and display format of a date field
+ */
+export function detectDateInfo(element: HTMLElement): DateFieldInfo {
+  if (element instanceof HTMLInputElement && NATIVE_DATE_KINDS[element.type]) {
+    return { kind: NATIVE_DATE_KINDS[element.type] };
+  }
+
+  const locale = getPageLocale();
+  const mantinePicker = MANTINE_PICKERS.find(({ selector }) => element.closest(selector));
+  const samples = getFormatSamples(element);
+
+  // Ant range pickers, or a value/placeholder that holds two dates
+  let kind: DateKind = mantinePicker?.kind ?? 'date';
+  if (kind === 'date' && (element.closest('.ant-picker-range') || samples.some((s) => splitDateRange(s)))) {
+    kind = 'date-range';
+  }
+
+  // The first sample that reads as a date or a token pattern decides the format
+  const inferred = samples.map((sample) => inferDateFormat(sample, locale)).find(Boolean);
+  if (inferred) {
+    // "DD.MM.YYYY HH:mm" on a plain date input is a datetime
+    if (kind === 'date' && /H|h/.test(inferred)) kind = 'datetime';
+    return { kind, format: inferred };
+  }
+
+  const mantineFormat =
+    mantinePicker && (kind === 'date-range' ? `${mantinePicker.format} – ${mantinePicker.format}` : mantinePicker.format);
+  return { kind, format: mantineFormat || (locale && getLocaleDateFormat(locale, kind)) || undefined };
+}
+
+/**
+ * Strings to try when typing a canonical value into a date widget, best guess first:
+ * the detected format, the canonical value itself, then the page locale's format
+ */
+export function getDateInputCandidates(element: HTMLElement, value: string): string[] {
+  const { kind, format } = detectDateInfo(element);
+  const locale = getPageLocale();
+  const localeFormat = locale ? getLocaleDateFormat(locale, kind) : undefined;
+
+  const candidates = [
+    format && formatForField(value, format, locale),
+    value,
+    localeFormat && formatForField(value, localeFormat, locale),
+  ];
+  return [...new Set(candidates.filter((c): c is string => Boolean(c)))];
+}
+
+/**
+ * Current value (or button text of Mantine pickers) and placeholders, in that order
+ */
+function getFormatSamples(element: HTMLElement): string[] {
+  const input = element instanceof HTMLInputElement ? element : null;
+  const placeholder =
+    element.closest('[class*="mantine-"]')?.querySelector('[class*="placeholder"]')?.textContent || '';
+
+  return [
+    input ? input.value : element.textContent || '',
+    element.getAttribute('placeholder') || '',
+    element.getAttribute('aria-placeholder') || '',
+    placeholder,
+  ]
+    .map((sample) => sample.trim())
+    .filter(Boolean);
+}
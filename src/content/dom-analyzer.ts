@@ -1,65 +1,115 @@
-import type { DetectedField, FieldType, LabelSource, FillMethod } from '@/shared/types';
-import { MANTINE_SELECTORS } from '@/shared/constants';
+import type { DetectedField, FieldConstraints, FieldType, FillMethod } from '@/shared/types';
+import { GENERIC_SELECTORS } from '@/shared/constants';
 import { logger } from '@/utils/logger';
+import { closestDeep, getElementRoot, getShadowHost, getShadowRoots, querySelectorAllDeep } from './shadow-dom';
+import { getActiveAdapters, getAdapterForElement } from './adapters';
+import { detectDateInfo } from './date-detector';
+import { getSectionInfo } from './element-recovery';
+import { extractGroupLabel, extractLabel } from './label-extractor';
+import { classifySemanticType } from './semantic-classifier';
+import { harvestSelectOptions } from './option-harvester';
+import { getValidationError } from './validation-errors';
+import {
+  TEST_ID_ATTRIBUTES,
+  buildSelector,
+  buildSelectorCandidates,
+  getPrimarySelector,
+  isStableId,
+} from './selector-strategy';
+
+// State shared by all elements of one analysis run
+interface AnalysisContext {
+  fields: DetectedField[];
+  seen: Set<Element>;
+  labelCache: Map<Element, string>;
+  elements: Map<DetectedField, Element>;
+  shadowRoots: ShadowRoot[]; // Open shadow roots, collected once per run
+  forms: Element[]; // Every form, shadow roots included (radio/checkbox group scopes)
+}
+
+// Containers that group radios/checkboxes into one question
+const CHOICE_GROUP_SELECTOR =
+  '[role="radiogroup"], [role="group"], .mantine-RadioGroup-root, .mantine-CheckboxGroup-root, ' +
+  '.ant-radio-group, .ant-checkbox-group, .MuiRadioGroup-root, .MuiFormGroup-root';
 
 /**
  * Main entry point for form analysis
  */
 export function analyzeFormFields(): DetectedField[] {
+  return runAnalysis().fields;
+}
+
+/**
+ * Form analysis with a pre-scan of selects whose options only render while their dropdown is open
+ */
+export async function analyzeFormFieldsWithOptions(): Promise<DetectedField[]> {
+  const { fields, elements } = runAnalysis();
+  await harvestSelectOptions(fields, elements);
+  return fields;
+}
+
+/**
+ * Detect every field of the document, keeping the element each field was read from
+ */
+function runAnalysis(): AnalysisContext {
   logger.log('Starting DOM analysis...');
   const fields: DetectedField[] = [];
+  const shadowRoots = getShadowRoots();
+  const context: AnalysisContext = {
+    fields,
+    seen: new Set(),
+    labelCache: new Map(),
+    elements: new Map(),
+    shadowRoots,
+    forms: querySelectorAllDeep('form', document, shadowRoots),
+  };
+
+  const adapters = getActiveAdapters();
+
+  // Library widgets, in each adapter's detection order
+  for (const adapter of adapters) {
+    for (const { selector, type, multiple } of adapter.fieldSelectors) {
+      querySelectorAllDeep(selector, document, shadowRoots).forEach((el) =>
+        processElement(el, type, context, multiple)
+      );
+    }
+  }
 
-  // Collect all input types
-  const textInputs = document.querySelectorAll(MANTINE_SELECTORS.textInput);
-  const selects = document.querySelectorAll(MANTINE_SELECTORS.select);
-  const autocompletes = document.querySelectorAll(MANTINE_SELECTORS.autocomplete);
-  const multiSelects = document.querySelectorAll(MANTINE_SELECTORS.multiSelect);
-  const tagsInputs = document.querySelectorAll(MANTINE_SELECTORS.tagsInput);
-  const textareas = document.querySelectorAll(MANTINE_SELECTORS.textarea);
-  const checkboxes = document.querySelectorAll(MANTINE_SELECTORS.checkbox);
-  const radios = document.querySelectorAll(MANTINE_SELECTORS.radio);
-  const switches = document.querySelectorAll(MANTINE_SELECTORS.switch);
-  const dateInputs = document.querySelectorAll(MANTINE_SELECTORS.dateInput);
-  const timeInputs = document.querySelectorAll(MANTINE_SELECTORS.timeInput);
-  const numberInputs = document.querySelectorAll(MANTINE_SELECTORS.numberInput);
-  const richTextEditors = document.querySelectorAll(MANTINE_SELECTORS.richText);
-  const fileInputs = document.querySelectorAll(MANTINE_SELECTORS.fileInput);
-  const colorInputs = document.querySelectorAll(MANTINE_SELECTORS.colorInput);
-
-  // Process each type
-  textInputs.forEach((el) => processElement(el, 'text', fields));
-  selects.forEach((el) => processElement(el, 'select', fields));
-  autocompletes.forEach((el) => processElement(el, 'select', fields)); // Treat as select
-  multiSelects.forEach((el) => processElement(el, 'select', fields)); // Treat as select
-  tagsInputs.forEach((el) => processElement(el, 'text', fields)); // Tags are text input
-  textareas.forEach((el) => processElement(el, 'textarea', fields));
-  checkboxes.forEach((el) => processElement(el, 'checkbox', fields));
-  radios.forEach((el) => processElement(el, 'radio', fields));
-  switches.forEach((el) => processElement(el, 'switch', fields));
-  dateInputs.forEach((el) => processElement(el, 'date', fields));
-  timeInputs.forEach((el) => processElement(el, 'text', fields)); // Time as text
-  numberInputs.forEach((el) => processElement(el, 'number', fields));
-  richTextEditors.forEach((el) => processElement(el, 'richtext', fields));
-  fileInputs.forEach((el) => processElement(el, 'file', fields));
-  colorInputs.forEach((el) => processElement(el, 'text', fields)); // Color as text
-
-  // Fallback: generic inputs not caught by Mantine selectors
-  const genericInputs = document.querySelectorAll(
-    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="file"])'
+  // Library-independent widgets
+  querySelectorAllDeep(GENERIC_SELECTORS.richText, document, shadowRoots).forEach((el) =>
+    processElement(el, 'richtext', context)
+  );
+  querySelectorAllDeep(GENERIC_SELECTORS.fileInput, document, shadowRoots).forEach((el) =>
+    processElement(el, 'file', context)
+  );
+
+  // Fallback: generic inputs not caught by adapter selectors
+  const ignoreSelector = adapters
+    .map((adapter) => adapter.ignoreSelector)
+    .filter(Boolean)
+    .join(', ');
+  const genericInputs = querySelectorAllDeep(
+    'input:not([type="hidden"]):not([type="submit"]):not([type="button"]):not([type="file"])',
+    document,
+    shadowRoots
   );
   genericInputs.forEach((el) => {
-    const existing = fields.find((f) => f.selector === buildSelector(el));
-    if (!existing) {
+    if (ignoreSelector && el.matches(ignoreSelector)) return;
+    if (!context.seen.has(el)) {
       const type = getFieldTypeFromInput(el as HTMLInputElement);
-      processElement(el, type, fields);
+      processElement(el, type, context);
     }
   });
 
+  // One field per radio group / checkbox group
+  groupChoiceFields(context, 'radio');
+  groupChoiceFields(context, 'checkbox');
+
   // Detect dynamic form sections (repeatable fields)
-  detectDynamicForms(fields);
+  detectDynamicForms(fields, shadowRoots);
 
   logger.log(`Found ${fields.length} form fields`);
-  return fields;
+  return context;
 }
 
 /**
@@ -68,19 +118,21 @@ export function analyzeFormFields(): DetectedField[] {
 function processElement(
   element: Element,
   type: FieldType,
-  fields: DetectedField[]
+  context: AnalysisContext,
+  isMultiple = false
 ): void {
+  const { fields, seen, labelCache } = context;
   const el = element as HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
 
-  // Skip if already processed (by id match)
+  // Skip if already processed (same element, or another element with the same id)
+  if (seen.has(el)) return;
+  seen.add(el);
   const existingById = el.id && fields.find((f) => f.id === el.id);
   if (existingById) return;
 
-  // Build unique selector
-  const selector = buildSelector(el);
-
-  // Skip if selector already exists
-  if (fields.find((f) => f.selector === selector)) return;
+  // Ranked selectors, so the field can be found again after a re-render
+  const selectorCandidates = buildSelectorCandidates(el, labelCache);
+  const selector = getPrimarySelector(selectorCandidates, buildSelector(el));
 
   // Extract label using multiple strategies
   const { label, source } = extractLabel(el);
@@ -89,13 +141,29 @@ function processElement(
   const currentValue = getCurrentValue(el, type);
 
   // Get options for select/radio
-  const options = type === 'select' ? getSelectOptions(el as HTMLSelectElement) : undefined;
+  const options = type === 'select' ? getSelectOptions(el) : undefined;
+  const optionGroups = el instanceof HTMLSelectElement ? getOptionGroups(el) : undefined;
+
+  // What the field means (email, phone, business number...)
+  const semantic = classifySemanticType(el, type, label);
+
+  // Date kind and display format, so values can be asked for and written in the right shape
+  const dateInfo = type === 'date' ? detectDateInfo(el) : undefined;
 
   // Check if required
   const required =
     el.hasAttribute('required') ||
     el.getAttribute('aria-required') === 'true' ||
-    el.closest('[data-mantine-required]') !== null;
+    closestDeep(el, '[data-mantine-required]') !== null ||
+    getShadowHost(el)?.hasAttribute('required') === true;
+
+  // Multi-value widgets and <select multiple> take a list of values
+  const multiple = isMultiple || (el instanceof HTMLSelectElement && el.multiple);
+
+  // Native validation constraints (plus value counts for multi-value fields)
+  const constraints = multiple
+    ? withItemCounts(extractConstraints(el), required, options)
+    : extractConstraints(el);
 
   // Detect disabled/readonly status
   const isDisabled = el.hasAttribute('disabled') || el.getAttribute('aria-disabled') === 'true';
@@ -105,147 +173,188 @@ function processElement(
   const { fillMethod, popupTriggerSelector } = determineFillMethod(el, type, isDisabled, isReadOnly);
 
   const field: DetectedField = {
-    id: el.id || generateFieldId(el),
+    id: el.id && isStableId(el.id) ? el.id : generateFieldId(el, label, source !== 'unknown', fields),
     name: el.name || undefined,
     type,
     label,
     labelSource: source,
     selector,
+    selectorCandidates,
     required,
+    multiple: multiple || undefined,
     currentValue,
     options,
+    optionGroups,
+    constraints,
+    ...semantic,
+    dateKind: dateInfo?.kind,
+    dateFormat: dateInfo?.format,
+    validationError: getValidationError(el),
     isDisabled,
     isReadOnly,
     fillMethod,
     popupTriggerSelector,
+    ...getSectionInfo(el),
   };
 
   fields.push(field);
+  context.elements.set(field, el);
 }
 
 /**
- * Extract label using multiple strategies in priority order
+ * Extract native validation constraints (attributes, then ARIA spinbutton values)
+ * Returns undefined when the element has none
  */
-function extractLabel(element: Element): { label: string; source: LabelSource } {
-  const el = element as HTMLInputElement;
+function extractConstraints(element: Element): FieldConstraints | undefined {
+  const constraints: FieldConstraints = {};
+
+  const readBound = (attribute: string, ariaAttribute: string) => {
+    const raw = element.getAttribute(attribute) ?? element.getAttribute(ariaAttribute);
+    if (raw === null || raw.trim() === '') return undefined;
+    const num = Number(raw);
+    return Number.isFinite(num) ? num : raw.trim();
+  };
+  const readNumber = (attribute: string) => {
+    const num = Number(element.getAttribute(attribute));
+    return element.hasAttribute(attribute) && Number.isFinite(num) ? num : undefined;
+  };
 
-  // Strategy 1: Direct aria-label
-  const ariaLabel = el.getAttribute('aria-label');
-  if (ariaLabel) {
-    return { label: ariaLabel.trim(), source: 'aria' };
-  }
+  constraints.min = readBound('min', 'aria-valuemin');
+  constraints.max = readBound('max', 'aria-valuemax');
 
-  // Strategy 2: aria-labelledby
-  const ariaLabelledBy = el.getAttribute('aria-labelledby');
-  if (ariaLabelledBy) {
-    const labelEl = document.getElementById(ariaLabelledBy);
-    if (labelEl?.textContent) {
-      return { label: cleanLabel(labelEl.textContent), source: 'aria' };
-    }
-  }
+  const step = readNumber('step');
+  if (step !== undefined && step > 0) constraints.step = step;
 
-  // Strategy 3: Associated <label> by htmlFor
-  if (el.id) {
-    const associatedLabel = document.querySelector(`label[for="${el.id}"]`);
-    if (associatedLabel?.textContent) {
-      return { label: cleanLabel(associatedLabel.textContent), source: 'associated' };
-    }
-  }
+  constraints.minLength = readNumber('minlength');
+  const maxLength = readNumber('maxlength');
+  if (maxLength !== undefined && maxLength >= 0) constraints.maxLength = maxLength;
 
-  // Strategy 4: Parent label element (Mantine wraps inputs in label)
-  const parentLabel = el.closest('label');
-  if (parentLabel) {
-    const labelText = Array.from(parentLabel.childNodes)
-      .filter((node) => node.nodeType === Node.TEXT_NODE)
-      .map((node) => node.textContent?.trim())
-      .filter(Boolean)
-      .join(' ');
-    if (labelText) {
-      return { label: cleanLabel(labelText), source: 'associated' };
-    }
-  }
+  constraints.pattern = element.getAttribute('pattern') || undefined;
 
-  // Strategy 5: Mantine InputWrapper label
-  const wrapper = el.closest('.mantine-InputWrapper-root, [data-mantine-input-wrapper]');
-  if (wrapper) {
-    const mantineLabel = wrapper.querySelector(
-      '.mantine-InputWrapper-label, .mantine-Input-label'
-    );
-    if (mantineLabel?.textContent) {
-      return { label: cleanLabel(mantineLabel.textContent), source: 'prop' };
-    }
+  if (element instanceof HTMLInputElement) {
+    const meaningfulTypes = ['email', 'tel', 'url', 'number', 'date', 'time', 'datetime-local', 'month', 'week', 'color', 'password'];
+    if (meaningfulTypes.includes(element.type)) constraints.inputType = element.type;
   }
 
-  // Strategy 6: Previous sibling with label-like content
-  const previousEl = el.previousElementSibling;
-  if (previousEl?.textContent && isLikelyLabel(previousEl)) {
-    return { label: cleanLabel(previousEl.textContent), source: 'associated' };
-  }
+  const defined = Object.entries(constraints).filter(([, value]) => value !== undefined);
+  return defined.length > 0 ? (Object.fromEntries(defined) as FieldConstraints) : undefined;
+}
 
-  // Strategy 7: Placeholder
-  const placeholder = el.getAttribute('placeholder');
-  if (placeholder) {
-    return { label: placeholder.trim(), source: 'placeholder' };
-  }
+/**
+ * Add value counts to a multi-value field's constraints
+ * Required fields need at least one value; select-like fields can't take more values than options
+ */
+function withItemCounts(
+  constraints: FieldConstraints | undefined,
+  required: boolean,
+  options: string[] | undefined
+): FieldConstraints {
+  return {
+    ...constraints,
+    minItems: required ? 1 : undefined,
+    maxItems: options?.length || undefined,
+  };
+}
 
-  // Strategy 8: Name attribute as fallback
-  if (el.name) {
-    return { label: formatNameAsLabel(el.name), source: 'prop' };
+/**
+ * Merge radios (and checkboxes sharing a name or group container) into one field per group
+ * Options are the option labels; the raw input values are kept in optionValues
+ */
+function groupChoiceFields(context: AnalysisContext, type: 'radio' | 'checkbox'): void {
+  const { fields, elements, labelCache, forms } = context;
+  const groups = new Map<Element | string, DetectedField[]>();
+
+  for (const field of fields) {
+    if (field.type !== type) continue;
+    const el = elements.get(field);
+    const key = el && getChoiceGroupKey(el as HTMLInputElement, forms);
+    if (!key) continue;
+    groups.set(key, [...(groups.get(key) || []), field]);
   }
 
-  return { label: 'Unknown Field', source: 'unknown' };
+  for (const [key, members] of groups) {
+    // A lone checkbox is a yes/no field, not a group
+    if (type === 'checkbox' && members.length < 2) continue;
+
+    const inputs = members.map((member) => elements.get(member) as HTMLInputElement);
+    const container = typeof key === 'string' ? null : key;
+    const anchor = container ?? inputs[0];
+    const { label, source } = extractGroupLabel(container, inputs[0]);
+
+    // Option labels must tell the options apart, otherwise fall back to raw values
+    const optionValues = inputs.map((input) => input.value);
+    const labels = members.map((member) => member.label);
+    const options = new Set(labels).size === labels.length ? labels : optionValues;
+    const checked = options.filter((_, index) => inputs[index].checked);
+
+    const remaining = fields.filter((f) => !members.includes(f));
+    const selectorCandidates = buildSelectorCandidates(anchor, labelCache);
+
+    const groupField: DetectedField = {
+      id: anchor.id && isStableId(anchor.id)
+        ? anchor.id
+        : generateFieldId(anchor, label, source !== 'unknown', remaining),
+      name: inputs[0].name || undefined,
+      type,
+      label,
+      labelSource: source,
+      selector: getPrimarySelector(selectorCandidates, buildSelector(anchor)),
+      selectorCandidates,
+      required: members.some((member) => member.required),
+      currentValue: checked.join(', '),
+      options,
+      optionValues,
+      isDisabled: members.every((member) => member.isDisabled),
+      isReadOnly: members.every((member) => member.isReadOnly),
+      fillMethod: members.every((member) => member.fillMethod === 'skip') ? 'skip' : 'direct',
+      ...getSectionInfo(inputs[0]),
+    };
+
+    fields.splice(fields.indexOf(members[0]), 1, groupField);
+    members.slice(1).forEach((member) => fields.splice(fields.indexOf(member), 1));
+    elements.set(groupField, anchor);
+  }
 }
 
 /**
- * Build a unique CSS selector for an element
+ * Group key of a radio/checkbox: its group container, or its name within the form
+ * A container holding inputs of several names is too broad and is ignored
  */
-function buildSelector(element: Element): string {
-  if (element.id) {
-    return `#${CSS.escape(element.id)}`;
+function getChoiceGroupKey(input: HTMLInputElement, forms: Element[]): Element | string | null {
+  const container = closestDeep(input, CHOICE_GROUP_SELECTOR);
+  if (container) {
+    const names = new Set(
+      Array.from(container.querySelectorAll(`input[type="${input.type}"]`)).map(
+        (el) => (el as HTMLInputElement).name
+      )
+    );
+    if (names.size === 1) return container;
   }
 
-  const path: string[] = [];
-  let current: Element | null = element;
-
-  while (current && current !== document.body) {
-    let selector = current.tagName.toLowerCase();
-
-    const parent: Element | null = current.parentElement;
-    if (parent) {
-      const currentEl = current;
-      const siblings = Array.from(parent.children).filter(
-        (child: Element) => child.tagName === currentEl.tagName
-      );
-      if (siblings.length > 1) {
-        const index = siblings.indexOf(current) + 1;
-        selector += `:nth-child(${index})`;
-      }
-    }
-
-    const mantineClass = Array.from(current.classList).find((c) => c.startsWith('mantine-'));
-    if (mantineClass) {
-      selector += `.${mantineClass}`;
-    }
-
-    path.unshift(selector);
-    current = parent;
+  if (!input.name) return null;
 
-    if (path.length > 5) break;
-  }
-
-  return path.join(' > ');
+  const scope = input.form ?? getElementRoot(input);
+  const scopeIndex = forms.indexOf(scope as Element);
+  return `${input.type}:${scopeIndex}:${input.name}`;
 }
 
 /**
- * Get current value based on field type
+ * Get current value based on field type (library widgets are read by their adapter)
  */
 function getCurrentValue(
   element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement | HTMLElement,
   type: FieldType
 ): string {
+  const adapterValue = getAdapterForElement(element)?.readValue(element, type);
+  if (adapterValue !== undefined) return adapterValue;
+
   switch (type) {
     case 'checkbox':
       return (element as HTMLInputElement).checked ? 'true' : 'false';
+    case 'switch':
+      // Native switch inputs or role="switch" buttons
+      if (element instanceof HTMLInputElement) return element.checked ? 'true' : 'false';
+      return element.getAttribute('aria-checked') === 'true' ? 'true' : 'false';
     case 'radio':
       return (element as HTMLInputElement).checked ? (element as HTMLInputElement).value : '';
     case 'select':
@@ -262,18 +371,27 @@ function getCurrentValue(
 }
 
 /**
- * Get options from select element
+ * Get options from a select-like element (adapter first, then native <select>)
  */
-function getSelectOptions(select: HTMLSelectElement): string[] {
-  const wrapper = select.closest('.mantine-Select-root');
-  if (wrapper) {
-    const options = wrapper.querySelectorAll('[data-combobox-option]');
-    if (options.length > 0) {
-      return Array.from(options).map((opt) => opt.textContent?.trim() || '');
-    }
+export function getSelectOptions(element: HTMLElement): string[] | undefined {
+  const adapterOptions = getAdapterForElement(element)?.getOptions(element);
+  if (adapterOptions) return adapterOptions;
+
+  if (element instanceof HTMLSelectElement) {
+    return Array.from(element.options).map((opt) => opt.text);
   }
 
-  return Array.from(select.options).map((opt) => opt.text);
+  return undefined;
+}
+
+/**
+ * <optgroup> label of each option of a native select (undefined when nothing is grouped)
+ */
+function getOptionGroups(select: HTMLSelectElement): string[] | undefined {
+  const groups = Array.from(select.options).map((opt) =>
+    opt.parentElement instanceof HTMLOptGroupElement ? opt.parentElement.label : ''
+  );
+  return groups.some(Boolean) ? groups : undefined;
 }
 
 /**
@@ -289,6 +407,8 @@ function getFieldTypeFromInput(input: HTMLInputElement): FieldType {
       return 'number';
     case 'date':
     case 'datetime-local':
+    case 'time':
+    case 'month':
       return 'date';
     default:
       return 'text';
@@ -296,53 +416,35 @@ function getFieldTypeFromInput(input: HTMLInputElement): FieldType {
 }
 
 /**
- * Clean label text
- */
-function cleanLabel(text: string): string {
-  return text
-    .replace(/\s+/g, ' ')
-    .replace(/\*$/, '')
-    .replace(/:\s*$/, '')
-    .trim();
-}
-
-/**
- * Check if element looks like a label
+ * Generate a readable field id for elements without a stable id
+ * Built from name, test hook or label so it survives DOM changes; a suffix keeps it unique
  */
-function isLikelyLabel(element: Element): boolean {
-  const tagName = element.tagName.toLowerCase();
-  const text = element.textContent?.trim() || '';
-
-  if (text.length === 0 || text.length > 100) return false;
-
-  if (['label', 'span', 'div', 'p', 'dt'].includes(tagName)) {
-    return true;
+function generateFieldId(
+  element: Element,
+  label: string,
+  hasLabel: boolean,
+  fields: DetectedField[]
+): string {
+  const testIdAttribute = TEST_ID_ATTRIBUTES.find((attr) => element.hasAttribute(attr));
+  const hook =
+    element.getAttribute('name') ||
+    (testIdAttribute && element.getAttribute(testIdAttribute)) ||
+    (hasLabel ? label : '') ||
+    element.tagName.toLowerCase();
+
+  const slug = hook
+    .normalize('NFKC')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40) || element.tagName.toLowerCase();
+
+  const baseId = `autofill-${slug}`;
+  let id = baseId;
+  for (let suffix = 2; fields.some((f) => f.id === id); suffix++) {
+    id = `${baseId}-${suffix}`;
   }
-
-  const hasLabelClass = Array.from(element.classList).some((c) =>
-    c.toLowerCase().includes('label')
-  );
-
-  return hasLabelClass;
-}
-
-/**
- * Format camelCase/snake_case name as label
- */
-function formatNameAsLabel(name: string): string {
-  return name
-    .replace(/([a-z])([A-Z])/g, '$1 $2')
-    .replace(/[_-]/g, ' ')
-    .replace(/\b\w/g, (c) => c.toUpperCase());
-}
-
-/**
- * Generate unique ID for elements without ID
- */
-function generateFieldId(element: Element): string {
-  const type = element.tagName.toLowerCase();
-  const index = Array.from(document.querySelectorAll(type)).indexOf(element);
-  return `autofill-${type}-${index}`;
+  return id;
 }
 
 /**
@@ -437,9 +539,9 @@ function isLikelyCategoryField(element: HTMLElement): boolean {
 /**
  * Detect and mark dynamic form sections (repeatable/marketplace fields)
  */
-function detectDynamicForms(fields: DetectedField[]): void {
+function detectDynamicForms(fields: DetectedField[], shadowRoots: ShadowRoot[]): void {
   // Find dynamic input pattern (dynamic-{market}-{field})
-  const dynamicInputs = document.querySelectorAll(MANTINE_SELECTORS.dynamicInput);
+  const dynamicInputs = querySelectorAllDeep(GENERIC_SELECTORS.dynamicInput, document, shadowRoots);
 
   dynamicInputs.forEach((el) => {
     const name = el.getAttribute('name') || '';
@@ -0,0 +1,151 @@
+/**
+ * Element recovery
+ * Re-locates a field whose stored selectors went stale (e.g. after a React re-render)
+ */
+import type { DetectedField, FieldType, RecoveryMethod } from '@/shared/types';
+import { textSimilarity } from '@/shared/text-matcher';
+import { logger } from '@/utils/logger';
+import { extractLabel } from './label-extractor';
+import { closestDeep, querySelectorAllDeep } from './shadow-dom';
+
+// Controls a detected field can resolve to
+const CONTROL_SELECTOR =
+  'input:not([type="hidden"]):not([type="submit"]):not([type="button"]), select, textarea, ' +
+  '[contenteditable="true"], [role="combobox"], [role="switch"]';
+
+// Containers that group related fields
+const SECTION_SELECTOR =
+  'fieldset, section, [role="group"], [role="region"], ' +
+  '.mantine-Paper-root, .mantine-Card-root, .ant-card, .MuiPaper-root, form';
+
+// Headings that name a section
+const SECTION_HEADING_SELECTOR =
+  'legend, h1, h2, h3, h4, h5, h6, [role="heading"], .mantine-Title-root, .ant-card-head-title';
+
+// Minimum label similarity (0-1) accepted as a match
+const LABEL_MATCH_THRESHOLD = 0.8;
+
+/**
+ * Section heading and position of an element, used to find it again by position
+ */
+export function getSectionInfo(element: Element): { section?: string; sectionIndex?: number } {
+  const container = closestDeep(element, SECTION_SELECTOR);
+  if (!container) return {};
+
+  const heading = container.querySelector(SECTION_HEADING_SELECTOR)?.textContent?.trim();
+  const index = Array.from(container.querySelectorAll(CONTROL_SELECTOR)).indexOf(element);
+
+  return {
+    section: heading || undefined,
+    sectionIndex: index >= 0 ? index : undefined,
+  };
+}
+
+/**
+ * Re-locate a field by label, name, then section position
+ */
+export function recoverElement(
+  field: DetectedField
+): { element: HTMLElement; method: RecoveryMethod } | null {
+  const controls = querySelectorAllDeep(CONTROL_SELECTOR).filter((el) =>
+    isCompatibleControl(el, field.type)
+  );
+
+  const byLabel = findByLabel(field, controls);
+  if (byLabel) return logRecovery(field, byLabel, 'label');
+
+  if (field.name) {
+    const byName = controls.filter((el) => el.getAttribute('name') === field.name);
+    if (byName.length === 1) return logRecovery(field, byName[0], 'name');
+  }
+
+  const byPosition = findBySectionPosition(field);
+  if (byPosition && isCompatibleControl(byPosition, field.type)) {
+    return logRecovery(field, byPosition, 'section-position');
+  }
+
+  logger.warn(`Recovery failed for ${field.id} (${field.label})`);
+  return null;
+}
+
+/**
+ * Best fuzzy label match; ties are broken by the field's section
+ */
+function findByLabel(field: DetectedField, controls: Element[]): Element | null {
+  if (field.labelSource === 'unknown') return null;
+
+  let bestScore = 0;
+  let best: Element[] = [];
+
+  for (const el of controls) {
+    const score = textSimilarity(extractLabel(el).label, field.label);
+    if (score > bestScore) {
+      bestScore = score;
+      best = [el];
+    } else if (score === bestScore && score > 0) {
+      best.push(el);
+    }
+  }
+
+  if (bestScore < LABEL_MATCH_THRESHOLD) return null;
+  if (best.length === 1) return best[0];
+
+  const inSection = best.filter((el) => getSectionInfo(el).section === field.section);
+  return inSection.length === 1 ? inSection[0] : null;
+}
+
+/**
+ * Element at the stored position inside the section with the same heading
+ */
+function findBySectionPosition(field: DetectedField): Element | null {
+  if (!field.section || field.sectionIndex === undefined) return null;
+
+  const container = querySelectorAllDeep(SECTION_SELECTOR).find(
+    (el) => el.querySelector(SECTION_HEADING_SELECTOR)?.textContent?.trim() === field.section
+  );
+  if (!container) return null;
+
+  return container.querySelectorAll(CONTROL_SELECTOR)[field.sectionIndex] ?? null;
+}
+
+/**
+ * Whether an element can hold a value of the field's type
+ */
+function isCompatibleControl(element: Element, type: FieldType): boolean {
+  const inputType = element instanceof HTMLInputElement ? element.type : '';
+
+  switch (type) {
+    case 'checkbox':
+      return inputType === 'checkbox';
+    case 'radio':
+      return inputType === 'radio';
+    case 'switch':
+      return inputType === 'checkbox' || element.getAttribute('role') === 'switch';
+    case 'richtext':
+      return element.getAttribute('contenteditable') === 'true';
+    case 'select':
+      return (
+        element instanceof HTMLSelectElement ||
+        element.getAttribute('role') === 'combobox' ||
+        inputType === 'text' ||
+        inputType === 'search'
+      );
+    default:
+      return (
+        element instanceof HTMLTextAreaElement ||
+        (element instanceof HTMLInputElement && !['checkbox', 'radio', 'file'].includes(inputType))
+      );
+  }
+}
+
+/**
+ * Log and package a recovered element
+ */
+function logRecovery(
+  field: DetectedField,
+  element: Element,
+  method: RecoveryMethod
+): { element: HTMLElement; method: RecoveryMethod } {
+  logger.log(`Recovered ${field.id} (${field.label}) by ${method}`);
+  return { element: element as HTMLElement, method };
+}
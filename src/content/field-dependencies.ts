@@ -0,0 +1,167 @@
+/**
+ * Field dependencies
+ * Cascading fields (province → city → district, category → subcategory) load their options or get enabled
+ * only after their parent changed. Dependencies are learned by watching which fields change after a fill,
+ * and known parents are filled before their dependents
+ */
+import type { DetectedField, FieldType } from '@/shared/types';
+import { logger } from '@/utils/logger';
+import { getSelectOptions } from './dom-analyzer';
+import { harvestFieldOptions } from './option-harvester';
+
+// How long dependents get to load their options once a parent changed them
+const DEPENDENT_TIMEOUT = 3000;
+
+// Poll interval while watching dependents
+const POLL_INTERVAL = 100;
+
+// Unchanged polls in a row before loaded options count as settled
+const SETTLED_POLLS = 3;
+
+// Field types whose value can switch other fields (cascading selects, choices that enable fields)
+const PARENT_TYPES: FieldType[] = ['select', 'radio', 'checkbox', 'switch'];
+
+// Parent field id → ids of the fields it changed, learned on this page and kept across rounds
+const learnedDependents = new Map<string, Set<string>>();
+
+// A field that may depend on the field being filled
+export interface WatchedField {
+  field: DetectedField;
+  element: HTMLElement;
+}
+
+/**
+ * Whether filling the field may change other fields
+ */
+export function canHaveDependents(field: DetectedField): boolean {
+  return PARENT_TYPES.includes(field.type);
+}
+
+/**
+ * Whether the field may be changed by another one (selects load options, disabled fields get enabled)
+ */
+export function canBeDependent(field: DetectedField): boolean {
+  return (field.type === 'select' || !!field.isDisabled) && field.fillMethod !== 'popup';
+}
+
+/**
+ * Order fields so known parents come before their dependents (DOM order otherwise)
+ */
+export function orderByDependencies(fields: DetectedField[]): DetectedField[] {
+  const byId = new Map(fields.map((f) => [f.id, f]));
+  const ordered: DetectedField[] = [];
+  const visited = new Set<DetectedField>();
+
+  const visit = (field: DetectedField) => {
+    if (visited.has(field)) return;
+    visited.add(field);
+
+    for (const [parentId, dependents] of learnedDependents) {
+      const parent = byId.get(parentId);
+      if (parent && dependents.has(field.id)) visit(parent);
+    }
+    ordered.push(field);
+  };
+
+  fields.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Current state of each watched field, compared after the parent was filled
+ */
+export function readFieldStates(watched: WatchedField[]): Map<DetectedField, string> {
+  return new Map(watched.map(({ field, element }) => [field, readFieldState(element)]));
+}
+
+/**
+ * Wait for the fields the parent changed and for their options to settle
+ * Parents without learned dependents are only watched for the quiet period (the usual delay between fields)
+ */
+export async function waitForDependents(
+  parent: DetectedField,
+  watched: WatchedField[],
+  before: Map<DetectedField, string>,
+  quietMs: number
+): Promise<WatchedField[]> {
+  let timeout = learnedDependents.has(parent.id) ? DEPENDENT_TIMEOUT : quietMs;
+  let changed: WatchedField[] = [];
+  let lastSnapshot = '';
+  let unchangedPolls = 0;
+
+  for (let waited = 0; waited < timeout; waited += POLL_INTERVAL) {
+    await sleep(POLL_INTERVAL);
+
+    const states = watched.map(({ element }) => readFieldState(element));
+    changed = watched.filter((w, i) => states[i] !== before.get(w.field));
+    if (changed.length === 0) continue;
+
+    // Something reacted: give it the full time to finish loading
+    timeout = DEPENDENT_TIMEOUT;
+
+    const snapshot = states.join('\n');
+    unchangedPolls = snapshot === lastSnapshot ? unchangedPolls + 1 : 0;
+    lastSnapshot = snapshot;
+
+    if (unchangedPolls >= SETTLED_POLLS && !changed.some(({ element }) => isLoadingOptions(element))) break;
+  }
+
+  if (changed.length > 0) {
+    const dependents = learnedDependents.get(parent.id) ?? new Set<string>();
+    changed.forEach(({ field }) => dependents.add(field.id));
+    learnedDependents.set(parent.id, dependents);
+    logger.log(`${parent.id} changed ${changed.map(({ field }) => field.id).join(', ')}`);
+  }
+
+  return changed;
+}
+
+/**
+ * Re-read a dependent after its parent changed: enabled state and the options it lists now
+ */
+export async function refreshDependent({ field, element }: WatchedField): Promise<DetectedField> {
+  const isDisabled = isElementDisabled(element);
+  let options = field.type === 'select' ? getSelectOptions(element) : field.options;
+
+  // Options of library selects render only while open
+  if (field.type === 'select' && !options?.length && !isDisabled) {
+    options = (await harvestFieldOptions(element))?.map((option) => option.label);
+  }
+
+  return {
+    ...field,
+    isDisabled,
+    fillMethod: field.fillMethod === 'skip' && !isDisabled ? 'direct' : field.fillMethod,
+    options,
+    optionGroups: undefined,
+  };
+}
+
+/**
+ * Enabled state and listed options of a field
+ */
+function readFieldState(element: HTMLElement): string {
+  if (!element.isConnected) return 'detached';
+  return `${isElementDisabled(element)}:${getSelectOptions(element)?.join('\n') ?? ''}`;
+}
+
+/**
+ * Same rule as detection: disabled attribute or aria-disabled
+ */
+function isElementDisabled(element: HTMLElement): boolean {
+  return element.hasAttribute('disabled') || element.getAttribute('aria-disabled') === 'true';
+}
+
+/**
+ * Enabled native select that lists nothing but its placeholder yet
+ */
+function isLoadingOptions(element: HTMLElement): boolean {
+  return element instanceof HTMLSelectElement && !isElementDisabled(element) && element.options.length <= 1;
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,133 @@
+/**
+ * Field watcher
+ * Watches the page while a form is filled: ticking "Has business license" or picking a type often inserts
+ * or enables fields, which are detected once the page is quiet and filled in the same run
+ */
+import type { DetectedField } from '@/shared/types';
+import { analyzeFormFields } from './dom-analyzer';
+
+// Passes of revealed fields per fill (filling revealed fields may reveal more)
+const MAX_REVEAL_PASSES = 3;
+
+// Time without mutations that counts as the form having stopped changing
+const QUIET_PERIOD = 300;
+
+// Longest wait for the form to stop changing
+const MAX_SETTLE_WAIT = 2000;
+
+// Attributes that show or enable fields
+const WATCHED_ATTRIBUTES = ['disabled', 'aria-disabled', 'hidden', 'style'];
+
+// Overlays widgets open while they are filled (dropdown portals, pickers, popovers)
+const OVERLAY_SELECTOR =
+  '[role="listbox"], [role="option"], [role="tooltip"], [data-combobox-dropdown], [data-portal], ' +
+  '.mantine-Popover-dropdown, .ant-select-dropdown, .ant-picker-dropdown, .MuiPopover-root, .MuiPopper-root';
+
+// Widget root around the element being filled (its own state changes are not reveals)
+const WIDGET_ROOT_SELECTOR =
+  '[class*="mantine-"][class*="-root"], .ant-form-item-control, .MuiFormControl-root, .chakra-form-control, label';
+
+export interface FieldWatcher {
+  // Element the filler is working on; its widget and the overlays it opens are ignored
+  setBusyElement(element: HTMLElement | null): void;
+  // Fields inserted or enabled since the watcher started, not handled yet; empty when the form stopped changing
+  takeRevealedFields(handled: DetectedField[]): Promise<DetectedField[]>;
+  // Disconnect the observer
+  stop(): void;
+}
+
+/**
+ * Start watching the document for inserted and enabled fields
+ * Fields known before the run started are never reported, even when they are still empty
+ */
+export function watchFieldChanges(knownFieldIds: string[] = []): FieldWatcher {
+  const known = new Set(knownFieldIds);
+  let busyRoot: Element | null = null;
+  let lastMutation = 0;
+  let passes = 0;
+
+  const record = (mutations: MutationRecord[]) => {
+    if (mutations.some((mutation) => !isOwnMutation(mutation, busyRoot))) {
+      lastMutation = Date.now();
+    }
+  };
+
+  const observer = new MutationObserver(record);
+  observer.observe(document.body, {
+    childList: true,
+    subtree: true,
+    attributes: true,
+    attributeFilter: WATCHED_ATTRIBUTES,
+  });
+
+  return {
+    setBusyElement(element) {
+      // Records of the previous element are still attributed to it
+      record(observer.takeRecords());
+      busyRoot = element ? element.closest(WIDGET_ROOT_SELECTOR) ?? element.parentElement ?? element : null;
+    },
+
+    async takeRevealedFields(handled) {
+      if (lastMutation === 0 || passes >= MAX_REVEAL_PASSES) return [];
+      passes++;
+
+      await waitForQuiet(() => lastMutation);
+      lastMutation = 0;
+
+      return findRevealedFields(handled, known);
+    },
+
+    stop() {
+      observer.disconnect();
+    },
+  };
+}
+
+/**
+ * Wait until no mutation was seen for the quiet period (or the settle limit elapsed)
+ */
+async function waitForQuiet(getLastMutation: () => number): Promise<void> {
+  const start = Date.now();
+  while (Date.now() - getLastMutation() < QUIET_PERIOD && Date.now() - start < MAX_SETTLE_WAIT) {
+    await sleep(100);
+  }
+}
+
+/**
+ * Whether a mutation comes from the filler itself: the widget it is filling or an overlay it opened
+ */
+function isOwnMutation(mutation: MutationRecord, busyRoot: Element | null): boolean {
+  const isOwnNode = (node: Node) => {
+    if (!(node instanceof Element)) return true; // Text changes don't add fields
+    if (busyRoot?.contains(node)) return true;
+    return node.closest(OVERLAY_SELECTOR) !== null || node.querySelector(OVERLAY_SELECTOR) !== null;
+  };
+
+  if (mutation.type === 'attributes') {
+    return isOwnNode(mutation.target);
+  }
+  if (busyRoot?.contains(mutation.target)) return true;
+  return [...mutation.addedNodes, ...mutation.removedNodes].every(isOwnNode);
+}
+
+/**
+ * Fillable empty fields that are new, or were disabled when they were last handled and are enabled now
+ */
+function findRevealedFields(handled: DetectedField[], known: Set<string>): DetectedField[] {
+  const handledById = new Map(handled.map((f) => [f.id, f]));
+
+  return analyzeFormFields().filter((field) => {
+    const previous = handledById.get(field.id);
+    if (previous ? !(previous.isDisabled && !field.isDisabled) : known.has(field.id)) return false;
+
+    const isEmpty = !field.currentValue || field.currentValue === '(empty)';
+    return isEmpty && (field.fillMethod === 'direct' || field.fillMethod === 'popup');
+  });
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,206 @@
+/**
+ * Fill history
+ * Snapshots field values before an auto-fill run touches them so the run can be undone
+ */
+import type { DetectedField, FieldType } from '@/shared/types';
+import { toValueList } from '@/shared/multi-value';
+import { logger } from '@/utils/logger';
+import { getAdapterForElement } from './adapters';
+import { fillTextInput, getChoiceInputs } from './input-events';
+
+// Number of auto-fill runs that can be undone
+export const MAX_FILL_HISTORY = 5;
+
+// What a field looked like before it was filled
+type SnapshotState =
+  | { kind: 'value'; value: string } // Inputs, textareas and native selects
+  | { kind: 'adapter'; value: string } // Library widgets (restored through their adapter)
+  | { kind: 'adapter-list'; values: string[] } // Multi-value library widgets (pills, tags)
+  | { kind: 'selected'; values: string[] } // Option values of a native <select multiple>
+  | { kind: 'checked'; inputs: { input: HTMLInputElement; checked: boolean }[] } // Checkboxes, radios, switches
+  | { kind: 'aria-checked'; checked: boolean } // role="switch" without an input
+  | { kind: 'html'; html: string }; // Rich text editors
+
+interface FieldSnapshot {
+  fieldId: string;
+  type: FieldType;
+  element: HTMLElement;
+  state: SnapshotState;
+}
+
+interface FillRun {
+  runId: string;
+  snapshots: FieldSnapshot[];
+}
+
+// Most recent run last
+const history: FillRun[] = [];
+
+/**
+ * Remember a field's value before it is filled
+ * Only the first snapshot of an element per run is kept (retry rounds fill it again)
+ */
+export function recordSnapshot(runId: string, element: HTMLElement, field: DetectedField): void {
+  let run = history.find((r) => r.runId === runId);
+  if (!run) {
+    run = { runId, snapshots: [] };
+    history.push(run);
+    if (history.length > MAX_FILL_HISTORY) history.shift();
+  }
+
+  if (run.snapshots.some((s) => s.element === element)) return;
+
+  try {
+    run.snapshots.push({ fieldId: field.id, type: field.type, element, state: captureState(element, field) });
+  } catch (error) {
+    logger.warn(`Could not snapshot ${field.id}:`, error);
+  }
+}
+
+/**
+ * Restore every field of a run to its snapshot, newest change first
+ * Returns the number of restored fields (0 when this frame has no such run)
+ */
+export async function undoFillRun(runId: string): Promise<number> {
+  const index = history.findIndex((r) => r.runId === runId);
+  if (index < 0) return 0;
+
+  const [run] = history.splice(index, 1);
+  let restored = 0;
+
+  for (const snapshot of [...run.snapshots].reverse()) {
+    if (!snapshot.element.isConnected) {
+      logger.warn(`Cannot undo ${snapshot.fieldId}: element is gone`);
+      continue;
+    }
+
+    try {
+      await restoreState(snapshot);
+      restored++;
+    } catch (error) {
+      logger.warn(`Failed to undo ${snapshot.fieldId}:`, error);
+    }
+  }
+
+  logger.log(`Undid run ${runId}: ${restored}/${run.snapshots.length} fields restored`);
+  return restored;
+}
+
+/**
+ * Read the current state of a field in the form it can be written back
+ */
+function captureState(element: HTMLElement, field: DetectedField): SnapshotState {
+  if (field.type === 'richtext') {
+    return { kind: 'html', html: getEditable(element).innerHTML };
+  }
+
+  if (field.type === 'checkbox' || field.type === 'radio' || field.type === 'switch') {
+    if (!(element instanceof HTMLInputElement) && element.getAttribute('role') === 'switch') {
+      return { kind: 'aria-checked', checked: element.getAttribute('aria-checked') === 'true' };
+    }
+    const inputs = field.type === 'switch' && element instanceof HTMLInputElement
+      ? [element]
+      : getChoiceInputs(element, field.type === 'radio' ? 'radio' : 'checkbox');
+    return { kind: 'checked', inputs: inputs.map((input) => ({ input, checked: input.checked })) };
+  }
+
+  const adapterValue = getAdapterForElement(element)?.readValue(element, field.type);
+  if (adapterValue !== undefined) {
+    return field.multiple
+      ? { kind: 'adapter-list', values: toValueList(adapterValue) }
+      : { kind: 'adapter', value: adapterValue };
+  }
+
+  if (element instanceof HTMLSelectElement && element.multiple) {
+    return { kind: 'selected', values: Array.from(element.selectedOptions).map((opt) => opt.value) };
+  }
+
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement || element instanceof HTMLSelectElement) {
+    return { kind: 'value', value: element.value };
+  }
+
+  return { kind: 'value', value: element.textContent || '' };
+}
+
+/**
+ * Write a snapshot back through the same React-compatible paths the filler uses
+ */
+async function restoreState(snapshot: FieldSnapshot): Promise<void> {
+  const { element, state, type } = snapshot;
+
+  switch (state.kind) {
+    case 'html': {
+      const editable = getEditable(element);
+      editable.innerHTML = state.html;
+      editable.dispatchEvent(new Event('input', { bubbles: true }));
+      editable.dispatchEvent(new Event('change', { bubbles: true }));
+      break;
+    }
+
+    case 'checked':
+      // Radios are unchecked by checking the previous choice, so restore checked inputs last
+      for (const { input, checked } of [...state.inputs].sort((a, b) => Number(a.checked) - Number(b.checked))) {
+        if (input.checked !== checked) input.click();
+      }
+      // A radio group that had no choice can't be cleared by clicking
+      for (const { input, checked } of state.inputs) {
+        if (input.checked !== checked) {
+          input.checked = checked;
+          input.dispatchEvent(new Event('change', { bubbles: true }));
+        }
+      }
+      break;
+
+    case 'aria-checked':
+      if ((element.getAttribute('aria-checked') === 'true') !== state.checked) element.click();
+      break;
+
+    case 'adapter': {
+      const adapter = getAdapterForElement(element);
+      if (state.value && adapter && (await adapter.fill(element, type, state.value))) break;
+      if (!state.value && adapter?.clear && (await adapter.clear(element, type))) break;
+      // The adapter could not select or clear it: write the raw value
+      if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        await fillTextInput(element, state.value);
+      }
+      break;
+    }
+
+    case 'adapter-list': {
+      const adapter = getAdapterForElement(element);
+      const restored = state.values.length > 0
+        ? await adapter?.fillMultiple?.(element, state.values)
+        : await adapter?.clear?.(element, type);
+      if (!restored) throw new Error('Adapter could not restore the values');
+      break;
+    }
+
+    case 'selected':
+      if (element instanceof HTMLSelectElement) {
+        Array.from(element.options).forEach((opt) => {
+          opt.selected = state.values.includes(opt.value);
+        });
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+      }
+      break;
+
+    case 'value':
+      if (element instanceof HTMLSelectElement) {
+        element.value = state.value;
+        element.dispatchEvent(new Event('change', { bubbles: true }));
+      } else if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+        await fillTextInput(element, state.value);
+      }
+      break;
+  }
+
+  element.blur();
+}
+
+/**
+ * The editable node of a rich text field (Quill, ProseMirror or plain contenteditable)
+ */
+function getEditable(element: HTMLElement): HTMLElement {
+  if (element.isContentEditable) return element;
+  return element.querySelector<HTMLElement>('.ql-editor, .ProseMirror, [contenteditable="true"]') ?? element;
+}
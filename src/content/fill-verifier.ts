@@ -0,0 +1,228 @@
+/**
+ * Fill verifier
+ * Reads a field's real state back after filling, so values reset by React state
+ * or never committed by a widget are reported as failures instead of successes
+ */
+import type { DetectedField } from '@/shared/types';
+import { parseDateValue, splitDateRange } from '@/shared/date-format';
+import { toValueList } from '@/shared/multi-value';
+import { parseLocaleNumber } from '@/shared/number-parser';
+import { normalizeText } from '@/shared/text-matcher';
+import { getAdapterForElement } from './adapters';
+import { isTruthyValue, matchOptionElement } from './adapters/utils';
+import { getChoiceInputs } from './input-events';
+import { getPageLocale } from './form-filler';
+import { extractLabel } from './label-extractor';
+
+export interface FillVerification {
+  matches: boolean;
+  actual: string; // What the field shows now
+}
+
+/**
+ * Compare what a field shows with the value that was written to it
+ */
+export function verifyFilledField(element: HTMLElement, field: DetectedField, expected: string): FillVerification {
+  if (field.multiple) return verifyMultiple(element, field, expected);
+
+  switch (field.type) {
+    case 'checkbox':
+      if (field.options) return verifyChoiceGroup(element, 'checkbox', expected);
+      return verifyToggle(element, expected);
+
+    case 'switch':
+      return verifyToggle(element, expected);
+
+    case 'radio':
+      return verifyChoiceGroup(element, 'radio', expected);
+
+    case 'richtext': {
+      // Paragraph breaks don't survive textContent, so compare without whitespace
+      const actual = getEditable(element).textContent || '';
+      const wanted = bareText(stripTags(expected));
+      return { matches: bareText(actual).includes(wanted), actual };
+    }
+  }
+
+  const actual = readDisplayedValue(element, field);
+
+  switch (field.type) {
+    case 'number':
+      return { matches: numbersMatch(actual, expected), actual };
+
+    case 'date':
+      return { matches: datesMatch(actual, expected), actual };
+
+    case 'select': {
+      // Widgets may show the option label for a value, or a longer label the value was matched against;
+      // a value filled by option value ("KR" for "Korea") matches the selected option's value instead
+      const optionValue = readOptionValue(element);
+      const matches =
+        textsMatch(actual, expected) ||
+        looselyIncludes(actual, expected) ||
+        (optionValue !== undefined && textsMatch(optionValue, expected));
+      return { matches, actual };
+    }
+
+    default:
+      return { matches: textsMatch(actual, expected), actual };
+  }
+}
+
+/**
+ * Value the element currently shows (adapter first, then the native value)
+ */
+function readDisplayedValue(element: HTMLElement, field: DetectedField): string {
+  const adapterValue = getAdapterForElement(element)?.readValue(element, field.type);
+  if (adapterValue !== undefined) return adapterValue;
+
+  if (element instanceof HTMLSelectElement) {
+    return element.selectedOptions[0]?.text.trim() || element.value;
+  }
+  if (element instanceof HTMLInputElement || element instanceof HTMLTextAreaElement) {
+    return element.value;
+  }
+  return element.textContent?.trim() || '';
+}
+
+/**
+ * Value attribute of the selected option (native select, or a widget's hidden input), when it has one
+ */
+function readOptionValue(element: HTMLElement): string | undefined {
+  if (element instanceof HTMLSelectElement) return element.selectedOptions[0]?.value || undefined;
+  return getAdapterForElement(element)?.readOptionValue?.(element);
+}
+
+/**
+ * Multi-value field: exactly the written values must be shown (selected options of a <select multiple>, pills of widgets)
+ */
+function verifyMultiple(element: HTMLElement, field: DetectedField, expected: string): FillVerification {
+  // Options of a <select multiple> may have been matched by their value or by their text
+  const shown =
+    element instanceof HTMLSelectElement
+      ? Array.from(element.selectedOptions).map((opt) => ({ text: opt.text.trim(), value: opt.value }))
+      : toValueList(readDisplayedValue(element, field)).map((text) => ({ text, value: '' }));
+  const expectedValues = toValueList(expected);
+  const isShown = (item: { text: string; value: string }, value: string) =>
+    looselyIncludes(item.text, value) || (item.value !== '' && textsMatch(item.value, value));
+
+  // Same set: every value is shown, and nothing else is
+  const matches =
+    expectedValues.every((value) => shown.some((item) => isShown(item, value))) &&
+    shown.every((item) => expectedValues.some((value) => isShown(item, value)));
+  return { matches, actual: shown.map((item) => item.text).join(', ') };
+}
+
+/**
+ * Checkbox or switch: checked state must match the boolean value
+ */
+function verifyToggle(element: HTMLElement, expected: string): FillVerification {
+  const checked = element instanceof HTMLInputElement
+    ? element.checked
+    : element.getAttribute('aria-checked') === 'true';
+  return { matches: checked === isTruthyValue(expected), actual: String(checked) };
+}
+
+/**
+ * Radio or checkbox group: the checked options must be the requested ones
+ */
+function verifyChoiceGroup(element: HTMLElement, type: 'radio' | 'checkbox', expected: string): FillVerification {
+  const inputs = getChoiceInputs(element, type);
+  const checked = inputs.filter((input) => input.checked);
+  const actual = checked.map((input) => extractLabel(input).label || input.value).join(', ');
+
+  // A lone radio only has to be checked
+  if (type === 'radio' && inputs.length === 1) {
+    return { matches: checked.length === 1, actual };
+  }
+
+  const wanted = type === 'checkbox'
+    ? expected.split(',').map((v) => v.trim()).filter(Boolean)
+    : [expected.trim()];
+  const allFound = wanted.every((option) =>
+    checked.some((input) => input.value.toLowerCase() === option.toLowerCase()) ||
+    matchOptionElement(checked, option, (input) => extractLabel(input).label) !== null
+  );
+
+  return { matches: allFound && checked.length === wanted.length, actual };
+}
+
+/**
+ * Text equality ignoring width forms, whitespace, punctuation and case, or the same characters once a mask's separators are removed
+ */
+function textsMatch(actual: string, expected: string): boolean {
+  if (normalizeText(actual) === normalizeText(expected)) return true;
+  return bareText(expected).length > 0 && bareText(actual) === bareText(expected);
+}
+
+/**
+ * Either text contains the other (select labels vs option values)
+ */
+function looselyIncludes(actual: string, expected: string): boolean {
+  const a = normalizeText(actual);
+  const b = normalizeText(expected);
+  return a.length > 0 && b.length > 0 && (a.includes(b) || b.includes(a));
+}
+
+/**
+ * Numeric equality after dropping separators, currency symbols and units
+ */
+function numbersMatch(actual: string, expected: string): boolean {
+  const a = parseLocaleNumber(actual, getPageLocale());
+  const b = parseLocaleNumber(expected);
+  if (a === null || b === null) return textsMatch(actual, expected);
+  return Math.abs(a - b) < 1e-9;
+}
+
+/**
+ * Same date and time, whatever display format the picker uses
+ * ("2024-01-05" matches "2024년 1월 5일", "01/05/2024" and "January 5, 2024"; ranges compare both ends)
+ */
+function datesMatch(actual: string, expected: string): boolean {
+  const expectedRange = splitDateRange(expected);
+  if (expectedRange) {
+    const actualRange = splitDateRange(actual);
+    return (
+      actualRange !== null &&
+      datesMatch(actualRange.start, expectedRange.start) &&
+      datesMatch(actualRange.end, expectedRange.end)
+    );
+  }
+
+  const wanted = parseDateValue(expected);
+  if (!wanted) return textsMatch(actual, expected);
+
+  // Parts shown by the widget must equal the written ones (a date-only display of a datetime passes)
+  const shown = parseDateValue(actual, getPageLocale());
+  const keys = ['year', 'month', 'day', 'hour', 'minute'] as const;
+  if (shown && keys.every((key) => shown[key] === undefined || wanted[key] === undefined || shown[key] === wanted[key])) {
+    return true;
+  }
+
+  // Month spelled out in a language the parser doesn't know ("5. Januar 2024")
+  const numbers = (actual.match(/\d+/g) || []).map(Number);
+  return (
+    wanted.year !== undefined &&
+    wanted.day !== undefined &&
+    numbers.includes(wanted.year) &&
+    numbers.includes(wanted.day) &&
+    /\p{L}{3,}/u.test(actual)
+  );
+}
+
+// Letters and digits only (masks add dashes, spaces and brackets)
+function bareText(text: string): string {
+  return text.normalize('NFC').replace(/[^\p{L}\p{N}]/gu, '').toLowerCase();
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ');
+}
+
+/**
+ * The editable node of a rich text field (Quill, ProseMirror or plain contenteditable)
+ */
+function getEditable(element: HTMLElement): HTMLElement {
+  if (element.isContentEditable) return element;
+  return element.querySelector<HTMLElement>('.ql-editor, .ProseMirror, [contenteditable="true"]') ?? element;
+}
@@ -1,18 +1,61 @@
-import type { DetectedField, AIFillResult, FieldType } from '@/shared/types';
+import type {
+  DetectedField,
+  AIFillResult,
+  AIFillValue,
+  FieldType,
+  FillResult,
+  OverwritePolicy,
+  RecoveryMethod,
+  TypingOptions,
+} from '@/shared/types';
+import { toCanonicalDate } from '@/shared/date-format';
+import { isFieldAllowedByPolicy } from '@/shared/fill-policy';
+import { toValueList, toValueText } from '@/shared/multi-value';
+import { parseValidatedNumber } from '@/shared/number-parser';
+import { OPTION_MATCH_THRESHOLD, findBestMatch } from '@/shared/text-matcher';
 import { logger } from '@/utils/logger';
+import { getAdapterForElement } from './adapters';
+import { getMatchScore, lowestMatchScore, matchOptionElement, type OptionMatch } from './adapters/utils';
+import { getDateInputCandidates } from './date-detector';
+import { recoverElement } from './element-recovery';
+import {
+  canBeDependent,
+  canHaveDependents,
+  orderByDependencies,
+  readFieldStates,
+  refreshDependent,
+  waitForDependents,
+  type WatchedField,
+} from './field-dependencies';
+import { recordSnapshot } from './fill-history';
+import { verifyFilledField } from './fill-verifier';
+import { watchFieldChanges, type FieldWatcher } from './field-watcher';
+import { fillTextInput, getChoiceInputs, setTypingOptions } from './input-events';
+import { extractLabel } from './label-extractor';
 import { fillPopupField } from './popup-handler';
-
-interface FillResult {
-  fieldId: string;
-  success: boolean;
-  skipped?: boolean;
-  reason?: string;
-  error?: string;
+import { resolveSelectorCandidates } from './selector-strategy';
+import { querySelectorAllDeep, querySelectorDeep } from './shadow-dom';
+import { getValidationError } from './validation-errors';
+
+// Time for framework re-renders to settle before filled values are read back
+const VERIFY_SETTLE_DELAY = 300;
+
+// A field that was written and still has to be read back
+interface FilledField {
+  resultIndex: number;
+  element: HTMLElement;
+  field: DetectedField;
+  expected: string;
 }
 
 interface FillOptions {
   enabledFieldTypes?: FieldType[];
+  overwritePolicy?: OverwritePolicy; // Which fields may be written (default: always)
+  typing?: TypingOptions; // How text inputs are written (default: auto)
+  runId?: string; // Auto-fill run the snapshots are recorded under (for undo)
   delayBetweenFields?: number; // Delay in ms between filling each field (for API-loaded selects)
+  requestValues?: (fields: DetectedField[]) => Promise<AIFillResult>; // Values for dependent and revealed fields
+  knownFieldIds?: string[]; // Fields detected when the run started, never treated as revealed
 }
 
 /**
@@ -24,10 +67,41 @@ export async function fillFormFields(
   options: FillOptions = {}
 ): Promise<FillResult[]> {
   const results: FillResult[] = [];
-  const { enabledFieldTypes, delayBetweenFields = 300 } = options; // Default 300ms delay
-
-  for (const field of fields) {
-    const value = values[field.id];
+  const { enabledFieldTypes, overwritePolicy, typing, runId, delayBetweenFields = 300, requestValues, knownFieldIds } =
+    options; // Default 300ms delay
+  setTypingOptions(typing);
+
+  // Directly filled fields, read back once every field has been written
+  const filled: FilledField[] = [];
+
+  // Known parents first; dependents a fill changed are moved right behind it with fresh options
+  const queue = orderByDependencies(fields);
+  const done: DetectedField[] = [];
+  const refilled = new Set<string>();
+  const fillValues: AIFillResult = { ...values };
+
+  // Take a handled field back so it is filled again (its earlier result is dropped)
+  const reopen = (fieldId: string) => {
+    const doneIndex = done.findIndex((f) => f.id === fieldId);
+    if (doneIndex < 0) return;
+    done.splice(doneIndex, 1);
+    dropResult(fieldId, results, filled);
+  };
+
+  // Fields the fill inserts or enables are queued with their own values once the queue runs dry
+  const watcher = requestValues ? watchFieldChanges([...(knownFieldIds ?? []), ...fields.map((f) => f.id)]) : undefined;
+  const queueRevealed = async (): Promise<boolean> => {
+    const revealed = watcher && requestValues ? await takeRevealedFields(watcher, done, fillValues, requestValues) : [];
+    revealed.forEach((f) => reopen(f.id));
+    queue.push(...orderByDependencies(revealed));
+    return revealed.length > 0;
+  };
+
+  while (queue.length > 0 || (await queueRevealed())) {
+    const field = queue.shift();
+    if (!field) break;
+    done.push(field);
+    const value = fillValues[field.id];
 
     // Skip fields with no value to fill
     if (value === undefined || value === null) {
@@ -52,6 +126,18 @@ export async function fillFormFields(
       continue;
     }
 
+    // Keep pre-entered data the overwrite policy protects
+    if (!isFieldAllowedByPolicy(field, overwritePolicy)) {
+      results.push({
+        fieldId: field.id,
+        success: true,
+        skipped: true,
+        reason: `Kept by overwrite policy "${overwritePolicy}"`,
+      });
+      logger.log(`Skipped field kept by overwrite policy: ${field.id}`);
+      continue;
+    }
+
     // Skip disabled fields
     if (field.fillMethod === 'skip' || field.isDisabled) {
       results.push({
@@ -89,32 +175,78 @@ export async function fillFormFields(
     }
 
     try {
+      // Snapshot before anything is touched, popup fields included, so undo can restore them
+      let element = findElement(field);
+      if (runId && element) {
+        recordSnapshot(runId, element, field);
+      }
+
       // Handle popup fields
       if (field.fillMethod === 'popup') {
-        const success = await fillPopupField(field, value);
+        const outcome = await fillPopupField(field, toValueText(value));
         results.push({
           fieldId: field.id,
-          success,
-          error: success ? undefined : 'Popup selection failed',
+          success: outcome !== false,
+          error: outcome ? undefined : 'Popup selection failed',
+          matchScore: getMatchScore(outcome),
         });
         // Add delay between fields for API-loaded data
         await sleep(delayBetweenFields);
         continue;
       }
 
-      // Handle direct fill
-      const element = findElement(field);
+      // Handle direct fill (re-locate the element if its selectors went stale)
+      let recoveryMethod: RecoveryMethod | undefined;
       if (!element) {
-        throw new Error('Element not found');
+        const recovered = recoverElement(field);
+        if (!recovered) {
+          throw new Error('Element not found');
+        }
+        ({ element, method: recoveryMethod } = recovered);
+        if (runId) {
+          recordSnapshot(runId, element, field);
+        }
       }
 
-      await fillElement(element, field.type, value);
+      // Fields this one may load options for or enable
+      const watched = canHaveDependents(field) ? findWatchedFields(field, [...done, ...queue]) : [];
+      const before = readFieldStates(watched);
 
-      results.push({ fieldId: field.id, success: true });
-      logger.log(`Filled ${field.id}: ${value}`);
+      let matchScore: number | undefined;
+      watcher?.setBusyElement(element);
+      try {
+        matchScore = await fillElement(element, field, value);
+      } finally {
+        watcher?.setBusyElement(null);
+      }
+
+      filled.push({ resultIndex: results.length, element, field, expected: normalizeValue(field, value) });
+      results.push({ fieldId: field.id, success: true, recoveryMethod, matchScore });
+      logger.log(`Filled ${field.id}: ${value}${recoveryMethod ? ` (recovered by ${recoveryMethod})` : ''}`);
+
+      if (watched.length === 0) {
+        // Add delay between fields for API-loaded data
+        await sleep(delayBetweenFields);
+        continue;
+      }
 
-      // Add delay between fields for API-loaded data (e.g., dependent selects)
-      await sleep(delayBetweenFields);
+      // Dependent selects: wait for their options, then fill them next with values that fit the options
+      const dependents = (await waitForDependents(field, watched, before, delayBetweenFields)).filter(
+        (dependent) => !done.includes(dependent.field) || !refilled.has(dependent.field.id)
+      );
+      if (dependents.length === 0) continue;
+
+      const refreshed = await refreshDependents(dependents, fillValues, requestValues);
+      for (const dependent of refreshed) {
+        const queued = queue.findIndex((f) => f.id === dependent.id);
+        if (queued >= 0) queue.splice(queued, 1);
+
+        if (done.some((f) => f.id === dependent.id)) {
+          reopen(dependent.id);
+          refilled.add(dependent.id);
+        }
+      }
+      queue.unshift(...refreshed);
     } catch (error) {
       logger.error(`Failed to fill ${field.id}:`, error);
       results.push({
@@ -124,12 +256,158 @@ export async function fillFormFields(
       });
     }
   }
+  watcher?.stop();
+
+  await verifyFilledFields(filled, results);
 
   return results;
 }
 
 /**
- * Find element using stored selector
+ * Fields revealed since the watcher started, with values requested for just those
+ * Empty when the form stopped changing or the pass limit was reached
+ */
+async function takeRevealedFields(
+  watcher: FieldWatcher,
+  handled: DetectedField[],
+  values: AIFillResult,
+  requestValues: (fields: DetectedField[]) => Promise<AIFillResult>
+): Promise<DetectedField[]> {
+  const revealed = await watcher.takeRevealedFields(handled);
+  if (revealed.length === 0) return [];
+
+  logger.log(`Fields revealed while filling: ${revealed.map((f) => f.id).join(', ')}`);
+  try {
+    Object.assign(values, await requestValues(revealed));
+    return revealed;
+  } catch (error) {
+    logger.warn('Could not request values for revealed fields:', error);
+    return [];
+  }
+}
+
+/**
+ * Fields (other than the one being filled) that may change when it is filled, with their elements
+ */
+function findWatchedFields(parent: DetectedField, fields: DetectedField[]): WatchedField[] {
+  return fields
+    .filter((f) => f !== parent && canBeDependent(f))
+    .map((f) => ({ field: f, element: findElement(f) }))
+    .filter((w): w is WatchedField => w.element !== null);
+}
+
+/**
+ * Re-read dependents and ask for new values where the current one no longer fits their options
+ */
+async function refreshDependents(
+  dependents: WatchedField[],
+  values: AIFillResult,
+  requestValues?: (fields: DetectedField[]) => Promise<AIFillResult>
+): Promise<DetectedField[]> {
+  const refreshed: DetectedField[] = [];
+  for (const dependent of dependents) {
+    refreshed.push(await refreshDependent(dependent));
+  }
+
+  const stale = refreshed.filter((f) => !f.isDisabled && !fitsOptions(f, values[f.id]));
+  if (stale.length > 0 && requestValues) {
+    try {
+      Object.assign(values, await requestValues(stale));
+      logger.log(`Requested values for dependent fields: ${stale.map((f) => f.id).join(', ')}`);
+    } catch (error) {
+      logger.warn('Could not request values for dependent fields:', error);
+    }
+  }
+
+  return refreshed;
+}
+
+/**
+ * Whether there is a value and every entry of it matches one of the field's options
+ */
+function fitsOptions(field: DetectedField, value: AIFillValue | undefined): boolean {
+  if (value === undefined || value === null) return false;
+
+  const options = field.options;
+  if (!options?.length) return true;
+
+  const entries = field.multiple ? toValueList(value) : [toValueText(value)];
+  return entries.every((entry) => findBestMatch(entry, options, OPTION_MATCH_THRESHOLD) !== null);
+}
+
+/**
+ * Forget the result of a field that is filled again (keeps read-back indexes pointing at the right results)
+ */
+function dropResult(fieldId: string, results: FillResult[], filled: FilledField[]): void {
+  const index = results.findIndex((r) => r.fieldId === fieldId);
+  if (index < 0) return;
+
+  results.splice(index, 1);
+  for (let i = filled.length - 1; i >= 0; i--) {
+    if (filled[i].resultIndex === index) {
+      filled.splice(i, 1);
+    } else if (filled[i].resultIndex > index) {
+      filled[i].resultIndex--;
+    }
+  }
+}
+
+/**
+ * Read every filled field back after the page settled and turn mismatches into failures
+ * Catches values reset by React state, options a widget never committed and inline validation errors
+ */
+async function verifyFilledFields(filled: FilledField[], results: FillResult[]): Promise<void> {
+  if (filled.length === 0) return;
+
+  await sleep(VERIFY_SETTLE_DELAY);
+
+  let mismatches = 0;
+  let rejected = 0;
+  for (const { resultIndex, element, field, expected } of filled) {
+    // The widget may have been re-rendered since it was filled
+    const current = element.isConnected ? element : findElement(field) ?? recoverElement(field)?.element;
+    if (!current) {
+      results[resultIndex] = { ...results[resultIndex], success: false, error: 'Element disappeared after filling' };
+      mismatches++;
+      continue;
+    }
+
+    try {
+      const { matches, actual } = verifyFilledField(current, field, expected);
+      if (!matches) {
+        results[resultIndex] = {
+          ...results[resultIndex],
+          success: false,
+          error: `Field shows "${actual}" instead of "${expected}"`,
+        };
+        mismatches++;
+        logger.warn(`Read-back mismatch on ${field.id}: expected "${expected}", got "${actual}"`);
+        continue;
+      }
+
+      // The value stuck, but the form may still reject it
+      const validationError = getValidationError(current);
+      if (validationError) {
+        results[resultIndex] = {
+          ...results[resultIndex],
+          success: false,
+          error: `Form rejected the value: ${validationError}`,
+          validationError,
+        };
+        rejected++;
+        logger.warn(`Form rejected ${field.id} = "${expected}": ${validationError}`);
+      }
+    } catch (error) {
+      logger.warn(`Could not verify ${field.id}:`, error);
+    }
+  }
+
+  logger.log(`Verified ${filled.length} filled fields: ${mismatches} mismatched, ${rejected} rejected by the form`);
+}
+
+/**
+ * Find element using stored selectors (searches open shadow roots too)
+ * Ranked candidates are tried first so fields still resolve after a re-render
  */
 function findElement(field: DetectedField): HTMLElement | null {
   if (field.id && !field.id.startsWith('autofill-')) {
@@ -137,15 +415,20 @@ function findElement(field: DetectedField): HTMLElement | null {
     if (byId) return byId;
   }
 
+  if (field.selectorCandidates?.length) {
+    const byCandidate = resolveSelectorCandidates(field.selectorCandidates);
+    if (byCandidate) return byCandidate;
+  }
+
   try {
-    const bySelector = document.querySelector(field.selector);
+    const bySelector = querySelectorDeep(field.selector);
     if (bySelector) return bySelector as HTMLElement;
   } catch {
     // Invalid selector, continue
   }
 
   if (field.name) {
-    const byName = document.querySelector(`[name="${field.name}"]`);
+    const [byName] = querySelectorAllDeep(`[name="${CSS.escape(field.name)}"]`);
     if (byName) return byName as HTMLElement;
   }
 
@@ -154,523 +437,189 @@ function findElement(field: DetectedField): HTMLElement | null {
 
 /**
  * Fill a single element based on its type
+ * Resolves the match score of the option chosen for the value (undefined when none was matched)
  */
 async function fillElement(
   element: HTMLElement,
-  type: string,
-  value: string
-): Promise<void> {
+  field: DetectedField,
+  value: AIFillValue
+): Promise<number | undefined> {
+  const { type } = field;
   element.scrollIntoView({ behavior: 'smooth', block: 'center' });
   await sleep(100);
 
   element.focus();
   await sleep(50);
 
+  // Multi-value widgets take the whole list
+  if (field.multiple) {
+    const matchScore = await fillMultipleValues(element, toValueList(value));
+    element.blur();
+    return matchScore;
+  }
+
+  const normalizedValue = normalizeValue(field, value);
+
+  // Library widgets are filled by the adapter of the library that rendered them
+  const adapter = getAdapterForElement(element);
+  const outcome = adapter ? await adapter.fill(element, type, normalizedValue) : false;
+  if (outcome) {
+    element.blur();
+    return getMatchScore(outcome);
+  }
+
+  let matchScore: number | undefined;
+
   switch (type) {
     case 'text':
     case 'textarea':
     case 'dynamic': // Dynamic marketplace fields are usually text inputs
-      await fillTextInput(element as HTMLInputElement | HTMLTextAreaElement, value);
+    case 'number': // Standard HTML5 number inputs
+      await fillTextInput(element as HTMLInputElement | HTMLTextAreaElement, normalizedValue);
       break;
 
-    case 'number':
-      await fillNumberInput(element as HTMLInputElement, value);
-      break;
-
-    case 'date':
-      await fillDateInput(element as HTMLInputElement, value);
+    case 'date': {
+      // Native date inputs take the canonical value, text date fields get it in their own format
+      const [formatted] = getDateInputCandidates(element, normalizedValue);
+      await fillTextInput(element as HTMLInputElement, formatted ?? normalizedValue);
       break;
+    }
 
     case 'select':
-      await fillSelect(element, value);
+      if (element instanceof HTMLSelectElement) {
+        matchScore = fillNativeSelect(element, normalizedValue);
+      }
       break;
 
     case 'checkbox':
-      fillCheckbox(element as HTMLInputElement, value);
+      if (field.options) {
+        matchScore = fillCheckboxGroup(element, normalizedValue);
+      } else {
+        fillCheckbox(element as HTMLInputElement, normalizedValue);
+      }
       break;
 
     case 'switch':
-      await fillSwitch(element as HTMLInputElement, value);
+      fillCheckbox(element as HTMLInputElement, normalizedValue);
       break;
 
     case 'radio':
-      fillRadio(element as HTMLInputElement, value);
+      matchScore = fillRadio(element, normalizedValue);
       break;
 
     case 'richtext':
-      await fillRichText(element, value);
+      await fillRichText(element, normalizedValue);
       break;
 
     default:
-      await fillTextInput(element as HTMLInputElement, value);
+      await fillTextInput(element as HTMLInputElement, normalizedValue);
   }
 
   element.blur();
+  return matchScore;
 }
 
 /**
- * Fill text input with React-compatible event simulation
- */
-async function fillTextInput(
-  element: HTMLInputElement | HTMLTextAreaElement,
-  value: string
-): Promise<void> {
-  element.value = '';
-
-  const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-    element instanceof HTMLInputElement
-      ? HTMLInputElement.prototype
-      : HTMLTextAreaElement.prototype,
-    'value'
-  )?.set;
-
-  if (nativeInputValueSetter) {
-    nativeInputValueSetter.call(element, value);
-  } else {
-    element.value = value;
-  }
-
-  element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
-  element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
-
-  element.dispatchEvent(
-    new InputEvent('input', {
-      bubbles: true,
-      cancelable: true,
-      inputType: 'insertText',
-      data: value,
-    })
-  );
-
-  await sleep(50);
-}
-
-/**
- * Fill number input (handles Mantine NumberInput)
+ * Normalize a value for the field type before it is handed to an adapter or generic filler
  */
-async function fillNumberInput(element: HTMLInputElement, value: string): Promise<void> {
-  const numValue = parseFloat(value) || 0;
-
-  // Check for Mantine NumberInput
-  const mantineWrapper = element.closest('.mantine-NumberInput-root');
+function normalizeValue(field: DetectedField, fillValue: AIFillValue): string {
+  const { type, constraints } = field;
+  if (field.multiple) return toValueList(fillValue).join(', ');
 
-  if (mantineWrapper) {
-    // Clear the input first
-    element.value = '';
+  const value = toValueText(fillValue);
 
-    // Use native setter for React compatibility
-    const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-      HTMLInputElement.prototype,
-      'value'
-    )?.set;
-
-    if (nativeInputValueSetter) {
-      nativeInputValueSetter.call(element, numValue.toString());
-    } else {
-      element.value = numValue.toString();
-    }
-
-    // Dispatch events
-    element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
-    element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
-
-    // Trigger blur to finalize (Mantine updates on blur)
-    element.dispatchEvent(new Event('blur', { bubbles: true }));
-  } else {
-    // Standard number input
-    await fillTextInput(element, numValue.toString());
-  }
-
-  await sleep(50);
-}
-
-/**
- * Fill date input (handles Mantine DatePickerInput/DateInput)
- */
-async function fillDateInput(element: HTMLInputElement, value: string): Promise<void> {
-  // Normalize date format to YYYY-MM-DD
-  let dateStr = value;
-  if (value.includes('/')) {
-    // Convert MM/DD/YYYY or DD/MM/YYYY to YYYY-MM-DD
-    const parts = value.split('/');
-    if (parts.length === 3) {
-      dateStr = `${parts[2]}-${parts[0].padStart(2, '0')}-${parts[1].padStart(2, '0')}`;
-    }
-  }
-
-  // Check for Mantine DatePicker (v7 and v8 selectors)
-  const mantineDatePicker = element.closest(
-    '.mantine-DatePickerInput-root, .mantine-DateInput-root, ' +
-    '[class*="DatePickerInput"], [class*="DateInput"]'
-  );
-
-  if (mantineDatePicker) {
-    // For Mantine 8.x, we need to trigger calendar and select date
-    // First, try clicking the input to open the calendar popover
-    const inputWrapper = mantineDatePicker.querySelector('.mantine-DatePickerInput-input, .mantine-DateInput-input, input');
-    if (inputWrapper) {
-      (inputWrapper as HTMLElement).click();
-      await sleep(300);
-    } else {
-      element.click();
-      await sleep(300);
-    }
-
-    // Look for calendar popover (Mantine 8.x uses Popover)
-    // Wait for calendar to fully render
-    let calendar: Element | null = null;
-    for (let waited = 0; waited < 500; waited += 100) {
-      const popover = document.querySelector('[data-floating-ui-portal], .mantine-Popover-dropdown');
-      calendar = popover?.querySelector('[class*="Calendar"], [class*="DatePicker-calendar"]') ||
-                 document.querySelector('.mantine-Calendar-calendar, [class*="Calendar-month"]');
-      if (calendar) break;
-      await sleep(100);
-    }
-
-    if (calendar) {
-      const success = await selectDateInCalendar(calendar as HTMLElement, dateStr);
-      if (success) {
-        await sleep(100);
-        // Close popover by pressing Escape or clicking outside
-        document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
-        await sleep(100);
-        return;
-      }
-    }
-
-    // Fallback: close any open calendar first
-    document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
-    await sleep(100);
-
-    // Try direct input with formatted date for Korean locale (YYYY년 MM월 DD일)
-    const date = new Date(dateStr);
-    if (!isNaN(date.getTime())) {
-      const koreanFormat = `${date.getFullYear()}년 ${String(date.getMonth() + 1).padStart(2, '0')}월 ${String(date.getDate()).padStart(2, '0')}일`;
-
-      element.focus();
-      await sleep(50);
-      element.value = '';
-
-      const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
-        HTMLInputElement.prototype,
-        'value'
-      )?.set;
-
-      // Try Korean format first, then ISO format
-      const formatsToTry = [koreanFormat, dateStr, date.toLocaleDateString('ko-KR')];
-
-      for (const format of formatsToTry) {
-        if (nativeInputValueSetter) {
-          nativeInputValueSetter.call(element, format);
-        } else {
-          element.value = format;
-        }
-
-        element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
-        element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
-        element.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
-        element.dispatchEvent(new Event('blur', { bubbles: true }));
-
-        await sleep(100);
-
-        // Check if value was accepted (not cleared)
-        if (element.value && element.value !== '') {
-          logger.log(`Date filled with format: ${format}`);
-          return;
-        }
+  switch (type) {
+    case 'number': {
+      // A value that holds no number fails the field instead of writing 0
+      const num = parseValidatedNumber(value, constraints, getPageLocale());
+      if (num === null) {
+        throw new Error(`"${value}" is not a number`);
       }
+      return String(num);
     }
-  } else {
-    // Standard HTML5 date input
-    await fillTextInput(element, dateStr);
-  }
-
-  await sleep(50);
-}
-
-/**
- * Select date in Mantine calendar (v7 and v8 compatible)
- * Simplified approach: navigate to correct month then click day
- */
-async function selectDateInCalendar(calendar: HTMLElement, dateStr: string): Promise<boolean> {
-  const date = new Date(dateStr);
-  if (isNaN(date.getTime())) return false;
-
-  const targetYear = date.getFullYear();
-  const targetMonth = date.getMonth(); // 0-indexed
-  const targetDay = date.getDate();
-
-  // Try to navigate to the correct month first
-  // Look for the header that shows current month/year
-  const headerLevel = calendar.querySelector(
-    '[class*="calendarHeaderLevel"], [class*="CalendarHeader"] button, ' +
-    '.mantine-DatePicker-calendarHeaderLevel, .mantine-Calendar-calendarHeaderLevel'
-  );
-
-  if (headerLevel) {
-    // Get current displayed month/year from header
-    const headerText = headerLevel.textContent?.trim() || '';
-    logger.log(`Calendar header: ${headerText}`);
-
-    // Navigate using prev/next buttons to get to correct month
-    const prevBtn = calendar.querySelector('[class*="calendarHeaderControl"]:first-child, [data-previous], [aria-label*="Previous"]');
-    const nextBtn = calendar.querySelector('[class*="calendarHeaderControl"]:last-child, [data-next], [aria-label*="Next"]');
-
-    // Simple navigation: use prev/next buttons to reach target month
-    let attempts = 0;
-    const maxAttempts = 24; // 2 years worth of months
 
-    while (attempts < maxAttempts) {
-      // Check if we can find the target day button
-      const dayButtons = calendar.querySelectorAll(
-        '[class*="Day-day"], [data-date], .mantine-DatePicker-day, .mantine-Calendar-day, ' +
-        'button[class*="day"]:not([class*="outside"])'
-      );
-
-      for (const btn of dayButtons) {
-        const dataDate = btn.getAttribute('data-date');
-        const dayText = btn.textContent?.trim();
-        const isOutside = btn.getAttribute('data-outside') === 'true' ||
-                          btn.classList.contains('mantine-DatePicker-day--outside') ||
-                          btn.hasAttribute('data-outside');
-
-        // Check if this button matches our target date
-        if (dataDate === dateStr) {
-          (btn as HTMLElement).click();
-          logger.log(`Selected date by data-date: ${dateStr}`);
-          return true;
-        }
-
-        // Check day number matches and not outside current month
-        if (!isOutside && dayText === targetDay.toString()) {
-          // Verify we're in the correct month by checking header
-          const currentHeader = calendar.querySelector(
-            '[class*="calendarHeaderLevel"], .mantine-DatePicker-calendarHeaderLevel'
-          );
-          const currentHeaderText = currentHeader?.textContent?.toLowerCase() || '';
-
-          // Check if header contains target month name
-          const monthNames = ['january', 'february', 'march', 'april', 'may', 'june',
-                              'july', 'august', 'september', 'october', 'november', 'december',
-                              '1월', '2월', '3월', '4월', '5월', '6월', '7월', '8월', '9월', '10월', '11월', '12월'];
-          const targetMonthName = monthNames[targetMonth]?.toLowerCase();
-          const targetMonthKr = monthNames[targetMonth + 12];
-
-          if (currentHeaderText.includes(targetYear.toString()) &&
-              (currentHeaderText.includes(targetMonthName) || currentHeaderText.includes(targetMonthKr))) {
-            (btn as HTMLElement).click();
-            logger.log(`Selected date by day number: ${targetDay}`);
-            return true;
-          }
-        }
-      }
-
-      // Need to navigate - determine direction
-      const currentHeader = calendar.querySelector('[class*="calendarHeaderLevel"]');
-      const currentText = currentHeader?.textContent || '';
-
-      // Parse current month/year from header (e.g., "January 2025" or "2025년 1월")
-      const yearMatch = currentText.match(/\d{4}/);
-      const currentYear = yearMatch ? parseInt(yearMatch[0]) : new Date().getFullYear();
-
-      // Determine if we need to go forward or backward
-      const currentMonthIndex = getMonthIndexFromHeader(currentText);
-      const currentDate = new Date(currentYear, currentMonthIndex, 1);
-      const targetDate = new Date(targetYear, targetMonth, 1);
-
-      if (currentDate < targetDate && nextBtn) {
-        (nextBtn as HTMLElement).click();
-        await sleep(150);
-      } else if (currentDate > targetDate && prevBtn) {
-        (prevBtn as HTMLElement).click();
-        await sleep(150);
-      } else {
-        // We're in the right month, try clicking the day again
-        const dayButtons = calendar.querySelectorAll('[class*="Day-day"], [data-date], button[class*="day"]');
-        for (const btn of dayButtons) {
-          const isOutside = btn.getAttribute('data-outside') === 'true';
-          const dayText = btn.textContent?.trim();
-          if (!isOutside && dayText === targetDay.toString()) {
-            (btn as HTMLElement).click();
-            logger.log(`Selected date on final attempt: ${targetDay}`);
-            return true;
-          }
-        }
-        break;
+    case 'date': {
+      // Any notation becomes the canonical format of the field's kind (YYYY-MM-DD, HH:mm, ...)
+      const date = toCanonicalDate(value, field.dateKind, getPageLocale());
+      if (date === null) {
+        throw new Error(`"${value}" is not a date`);
       }
-
-      attempts++;
+      return date;
     }
-  }
 
-  // Fallback: try clicking any visible day button that matches
-  const allDayButtons = calendar.querySelectorAll('button');
-  for (const btn of allDayButtons) {
-    const dayText = btn.textContent?.trim();
-    if (dayText === targetDay.toString() && !btn.hasAttribute('data-outside')) {
-      (btn as HTMLElement).click();
-      logger.log(`Selected date via fallback: ${targetDay}`);
-      return true;
-    }
+    default:
+      return value;
   }
-
-  return false;
 }
 
 /**
- * Get month index (0-11) from calendar header text
+ * Locale numbers and dates on the page are written in (decides "1.234" vs "1,234", 01/05 vs 05/01)
  */
-function getMonthIndexFromHeader(headerText: string): number {
-  const text = headerText.toLowerCase();
-
-  // English month names
-  const englishMonths = ['january', 'february', 'march', 'april', 'may', 'june',
-                         'july', 'august', 'september', 'october', 'november', 'december'];
-  for (let i = 0; i < englishMonths.length; i++) {
-    if (text.includes(englishMonths[i])) return i;
-  }
-
-  // Korean month names (1월, 2월, etc.)
-  const koreanMatch = text.match(/(\d+)월/);
-  if (koreanMatch) {
-    return parseInt(koreanMatch[1]) - 1;
-  }
-
-  return new Date().getMonth();
+export function getPageLocale(): string | undefined {
+  return document.documentElement.lang || navigator.language || undefined;
 }
 
 /**
- * Fill Mantine Select component
+ * Fill a multi-value field: the library adapter selects options or creates tags one by one,
+ * a native <select multiple> selects every listed option, plain inputs take the values comma-separated
+ * Resolves the lowest match score of the chosen options
  */
-async function fillSelect(element: HTMLElement, value: string): Promise<void> {
-  const mantineWrapper = element.closest('.mantine-Select-root');
+async function fillMultipleValues(element: HTMLElement, values: string[]): Promise<number | undefined> {
+  const adapter = getAdapterForElement(element);
+  const outcome = adapter?.fillMultiple ? await adapter.fillMultiple(element, values) : false;
+  if (outcome) return getMatchScore(outcome);
 
-  if (mantineWrapper) {
-    await fillMantineSelect(mantineWrapper as HTMLElement, value);
-  } else if (element instanceof HTMLSelectElement) {
-    fillNativeSelect(element, value);
+  if (element instanceof HTMLSelectElement) {
+    return fillNativeMultiSelect(element, values);
   }
+
+  await fillTextInput(element as HTMLInputElement, values.join(', '));
+  return undefined;
 }
 
 /**
- * Fill Mantine Select by clicking and selecting option
- * Includes retry logic for API-loaded options
+ * Fill native <select multiple>: exactly the matched options end up selected
  */
-async function fillMantineSelect(wrapper: HTMLElement, value: string): Promise<void> {
-  const input = wrapper.querySelector('.mantine-Select-input') as HTMLElement;
-  if (!input) {
-    throw new Error('Mantine Select input not found');
-  }
-
-  const maxRetries = 3;
-  let lastError: Error | null = null;
-
-  for (let attempt = 1; attempt <= maxRetries; attempt++) {
-    try {
-      // Click to open dropdown
-      input.click();
-      await sleep(200);
-
-      // Wait for dropdown to appear (may need to load from API)
-      let dropdown: Element | null = null;
-      const dropdownWaitTime = attempt * 500; // Increase wait time on retries
-
-      for (let waited = 0; waited < dropdownWaitTime; waited += 100) {
-        dropdown = document.querySelector('.mantine-Select-dropdown, [data-combobox-dropdown]');
-        if (dropdown) break;
-        await sleep(100);
-      }
-
-      if (!dropdown) {
-        throw new Error('Mantine Select dropdown not found');
-      }
-
-      // Wait for options to load (API calls may take time)
-      let options: NodeListOf<Element> | null = null;
-      const optionsWaitTime = attempt * 800; // Longer wait for API-loaded options
-
-      for (let waited = 0; waited < optionsWaitTime; waited += 150) {
-        options = dropdown.querySelectorAll('[data-combobox-option]');
-        if (options && options.length > 0) break;
-        await sleep(150);
-      }
-
-      if (!options || options.length === 0) {
-        // Close dropdown and retry
-        document.body.click();
-        await sleep(100);
-        throw new Error('No options available in dropdown');
-      }
-
-      // Find matching option (case-insensitive, partial match)
-      let matchedOption: HTMLElement | null = null;
-      const valueLower = value.toLowerCase().trim();
-
-      for (const opt of options) {
-        const optText = opt.textContent?.trim().toLowerCase() || '';
-        const optValue = opt.getAttribute('data-value')?.toLowerCase() || '';
-
-        // Exact match first
-        if (optText === valueLower || optValue === valueLower) {
-          matchedOption = opt as HTMLElement;
-          break;
-        }
-      }
-
-      // Partial match if no exact match
-      if (!matchedOption) {
-        for (const opt of options) {
-          const optText = opt.textContent?.trim().toLowerCase() || '';
-          if (optText.includes(valueLower) || valueLower.includes(optText)) {
-            matchedOption = opt as HTMLElement;
-            break;
-          }
-        }
-      }
+function fillNativeMultiSelect(select: HTMLSelectElement, values: string[]): number | undefined {
+  const matched = values.map((value) => findNativeOption(select, value));
 
-      if (matchedOption) {
-        matchedOption.click();
-        await sleep(150);
-        return; // Success!
-      }
-
-      // Close dropdown before retry
-      document.body.click();
-      await sleep(100);
-      throw new Error(`Option "${value}" not found in select (${options.length} options available)`);
-    } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
-      logger.warn(`Select fill attempt ${attempt} failed:`, lastError.message);
-
-      if (attempt < maxRetries) {
-        await sleep(300 * attempt); // Exponential backoff
-      }
-    }
+  const missing = values.filter((_, i) => !matched[i]);
+  if (missing.length > 0) {
+    throw new Error(`Options not found: ${missing.map((v) => `"${v}"`).join(', ')}`);
   }
 
-  // Close any open dropdown
-  document.body.click();
-  throw lastError || new Error(`Failed to fill select with value: ${value}`);
+  Array.from(select.options).forEach((opt) => {
+    opt.selected = matched.some((match) => match?.element === opt);
+  });
+  select.dispatchEvent(new Event('change', { bubbles: true }));
+  return lowestMatchScore(matched.map((match) => match?.score));
 }
 
 /**
  * Fill native HTML select element
  */
-function fillNativeSelect(select: HTMLSelectElement, value: string): void {
-  const option = Array.from(select.options).find(
-    (opt) =>
-      opt.value.toLowerCase() === value.toLowerCase() ||
-      opt.text.toLowerCase() === value.toLowerCase()
-  );
+function fillNativeSelect(select: HTMLSelectElement, value: string): number {
+  const match = findNativeOption(select, value);
 
-  if (option) {
-    select.value = option.value;
+  if (match) {
+    select.value = (match.element as HTMLOptionElement).value;
     select.dispatchEvent(new Event('change', { bubbles: true }));
+    return match.score;
   } else {
     throw new Error(`Option "${value}" not found`);
   }
 }
 
+/**
+ * Option whose value attribute equals the value, otherwise the one with the closest text
+ */
+function findNativeOption(select: HTMLSelectElement, value: string): OptionMatch | null {
+  const options = Array.from(select.options);
+  const byValue = options.find((opt) => opt.value && opt.value.toLowerCase() === value.toLowerCase());
+  if (byValue) return { element: byValue, score: 1 };
+  return matchOptionElement(options, value, (opt) => (opt as HTMLOptionElement).text);
+}
+
 /**
  * Fill checkbox element
  */
@@ -684,51 +633,74 @@ function fillCheckbox(element: HTMLInputElement, value: string): void {
 }
 
 /**
- * Fill Mantine Switch component
+ * Fill a radio group by choosing the option whose label or value matches
  */
-async function fillSwitch(element: HTMLInputElement, value: string): Promise<void> {
-  const shouldCheck =
-    value.toLowerCase() === 'true' || value === '1' || value.toLowerCase() === 'yes';
+function fillRadio(element: HTMLElement, value: string): number | undefined {
+  const radios = getChoiceInputs(element, 'radio');
 
-  // Mantine Switch uses hidden input + track element
-  const switchWrapper = element.closest('.mantine-Switch-root');
+  // A lone radio without a group has nothing to choose between
+  if (radios.length === 1) {
+    if (!radios[0].checked) radios[0].click();
+    return undefined;
+  }
 
-  if (switchWrapper) {
-    // Find the track element which handles the click
-    const track = switchWrapper.querySelector('.mantine-Switch-track') as HTMLElement;
+  const match = findChoice(radios, value);
+  if (!match) {
+    throw new Error(`Option "${value}" not found in radio group`);
+  }
 
-    if (track && element.checked !== shouldCheck) {
-      track.click();
-      await sleep(100);
-    }
-  } else {
-    // Fallback to checkbox behavior
-    if (element.checked !== shouldCheck) {
-      element.click();
-    }
+  if (!match.input.checked) {
+    match.input.click();
   }
+  return match.score;
 }
 
 /**
- * Fill radio button
+ * Fill a checkbox group from a comma-separated list of option labels or values
  */
-function fillRadio(element: HTMLInputElement, value: string): void {
-  const name = element.name;
-  if (!name) {
-    element.click();
-    return;
+function fillCheckboxGroup(element: HTMLElement, value: string): number | undefined {
+  const checkboxes = getChoiceInputs(element, 'checkbox');
+  const wanted = value.split(',').map((v) => v.trim()).filter(Boolean);
+
+  const toCheck = new Set<HTMLInputElement>();
+  const scores: number[] = [];
+  const missing: string[] = [];
+  for (const option of wanted) {
+    const match = findChoice(checkboxes, option);
+    if (match) {
+      toCheck.add(match.input);
+      scores.push(match.score);
+    } else {
+      missing.push(option);
+    }
   }
 
-  const radios = document.querySelectorAll(`input[type="radio"][name="${name}"]`);
-  for (const radio of radios) {
-    const r = radio as HTMLInputElement;
-    if (r.value.toLowerCase() === value.toLowerCase()) {
-      r.click();
-      return;
+  for (const checkbox of checkboxes) {
+    if (checkbox.checked !== toCheck.has(checkbox)) {
+      checkbox.click();
     }
   }
 
-  element.click();
+  if (missing.length > 0) {
+    throw new Error(`Options not found in checkbox group: ${missing.join(', ')}`);
+  }
+  return lowestMatchScore(scores);
+}
+
+/**
+ * Find the option input whose label or value matches (exact first, then partial label), with its match score
+ */
+function findChoice(inputs: HTMLInputElement[], value: string): { input: HTMLInputElement; score: number } | null {
+  const wanted = value.toLowerCase().trim();
+
+  const exact = inputs.find(
+    (input) =>
+      extractLabel(input).label.toLowerCase() === wanted || input.value.toLowerCase() === wanted
+  );
+  if (exact) return { input: exact, score: 1 };
+
+  const match = matchOptionElement(inputs, value, (input) => extractLabel(input).label);
+  return match ? { input: match.element as HTMLInputElement, score: match.score } : null;
 }
 
 /**
@@ -1,10 +1,19 @@
+import { canGenerateLocally, generateFormValues } from "@/shared/data-generator";
+import { isFieldAllowedByPolicy } from "@/shared/fill-policy";
+import { toValueText } from "@/shared/multi-value";
 import { getSettings } from "@/shared/storage";
+import { getTypingOptions } from "@/shared/typing-mode";
 import type {
   AIFillResult,
+  CollectFieldsPayload,
   DetectedField,
   ExtensionMessage,
+  ExtensionSettings,
   ExtensionResponse,
-  FieldType,
+  FillFormPayload,
+  FillSummary,
+  ResolveFieldValuesPayload,
+  UndoFillPayload,
 } from "@/shared/types";
 import { logger } from "@/utils/logger";
 import {
@@ -13,13 +22,31 @@ import {
   setMenuLoading,
   showCancelButton,
   showMenuToast,
+  showReviewPanel,
   updateMenuDebugStream,
 } from "./circular-menu";
-import { analyzeFormFields } from "./dom-analyzer";
-import { fillFormFields, highlightField } from "./form-filler";
+import { analyzeFormFields, analyzeFormFieldsWithOptions } from "./dom-analyzer";
+import { MAX_FILL_HISTORY, undoFillRun } from "./fill-history";
+import { fillFormFields, getPageLocale, highlightField } from "./form-filler";
 import { initKeyboardShortcuts, registerShortcut } from "./keyboard-shortcuts";
 import { openSettingsModal } from "./settings-modal";
 
+// Content script runs in every frame; only the top frame owns the UI and the fill loop
+const isTopFrame = window.self === window.top;
+
+// Messages child frames answer (everything else is left to the top frame)
+const FRAME_MESSAGE_TYPES: ExtensionMessage["type"][] = [
+  "GET_FORM_FIELDS",
+  "FILL_FORM",
+  "UNDO_FILL",
+];
+
+// Auto-fill runs of this tab that can be undone, most recent last (top frame only)
+const fillRunIds: string[] = [];
+
+// Review decisions of the current auto-fill by field id (true when approved); retry rounds don't ask again
+const reviewDecisions = new Map<string, boolean>();
+
 // Initialize content script based on settings
 initializeWithSettings();
 
@@ -31,7 +58,11 @@ async function initializeWithSettings() {
     return;
   }
 
-  initContentScript();
+  if (isTopFrame) {
+    initContentScript();
+  } else {
+    initMessageListener();
+  }
 }
 
 function initContentScript() {
@@ -44,6 +75,13 @@ function initContentScript() {
       onClick: () => triggerAutoFill(),
       color: "rgba(34, 197, 94, 0.8)", // Green
     },
+    {
+      id: "undo",
+      icon: getUndoIcon(),
+      label: "Undo Auto-Fill (Alt+Z)",
+      onClick: () => undoLastAutoFill(),
+      color: "rgba(249, 115, 22, 0.8)", // Orange
+    },
     {
       id: "language",
       icon: getLangIcon(),
@@ -69,6 +107,13 @@ function initContentScript() {
     description: "Trigger auto-fill",
   });
 
+  registerShortcut({
+    key: "z",
+    alt: true,
+    handler: undoLastAutoFill,
+    description: "Undo last auto-fill",
+  });
+
   // Cancel shortcut (Escape key)
   registerShortcut({
     key: "Escape",
@@ -78,12 +123,24 @@ function initContentScript() {
     description: "Cancel auto-fill",
   });
 
+  initMessageListener();
+}
+
+/**
+ * Listen for extension messages
+ * Child frames only answer detection and fill requests routed by the background
+ */
+function initMessageListener() {
   chrome.runtime.onMessage.addListener(
     (
       message: ExtensionMessage,
       _sender: chrome.runtime.MessageSender,
       sendResponse: (response: ExtensionResponse) => void
     ) => {
+      if (!isTopFrame && !FRAME_MESSAGE_TYPES.includes(message.type)) {
+        return false;
+      }
+
       handleMessage(message)
         .then(sendResponse)
         .catch((error) => {
@@ -100,12 +157,16 @@ async function handleMessage(
 ): Promise<ExtensionResponse> {
   switch (message.type) {
     case "GET_FORM_FIELDS":
-      return handleGetFormFields();
+      return handleGetFormFields(message.payload as CollectFieldsPayload | undefined);
 
     case "FILL_FORM":
-      return handleFillForm(
-        message.payload as { fields: DetectedField[]; values: AIFillResult }
-      );
+      return handleFillForm(message.payload as FillFormPayload);
+
+    case "UNDO_FILL":
+      return {
+        success: true,
+        data: await undoFillRun((message.payload as UndoFillPayload).runId),
+      };
 
     case "TRIGGER_AUTOFILL":
       await triggerAutoFill();
@@ -119,14 +180,24 @@ async function handleMessage(
         message.payload as { chunk: string; fullText: string }
       );
 
+    case "RESOLVE_FIELD_VALUES":
+      return {
+        success: true,
+        data: await resolveFieldValues((message.payload as ResolveFieldValuesPayload).fields),
+      };
+
     default:
       return { success: false, error: `Unknown message type: ${message.type}` };
   }
 }
 
-function handleGetFormFields(): ExtensionResponse<DetectedField[]> {
+async function handleGetFormFields(
+  payload?: CollectFieldsPayload
+): Promise<ExtensionResponse<DetectedField[]>> {
   try {
-    const fields = analyzeFormFields();
+    const fields = payload?.harvestOptions
+      ? await analyzeFormFieldsWithOptions()
+      : analyzeFormFields();
     return { success: true, data: fields };
   } catch (error) {
     logger.error("Form analysis failed:", error);
@@ -137,17 +208,25 @@ function handleGetFormFields(): ExtensionResponse<DetectedField[]> {
   }
 }
 
-async function handleFillForm(payload: {
-  fields: DetectedField[];
-  values: AIFillResult;
-  enabledFieldTypes?: FieldType[];
-}): Promise<ExtensionResponse> {
+async function handleFillForm(
+  payload: FillFormPayload
+): Promise<ExtensionResponse<FillSummary>> {
   try {
-    const { fields, values, enabledFieldTypes } = payload;
+    const { fields, values, enabledFieldTypes, overwritePolicy, runId, knownFieldIds } = payload;
+
+    // Each frame applies the typing override of its own domain (iframes may be cross-origin)
+    const typing = getTypingOptions(await getSettings(), window.location.hostname);
 
     logger.log("Filling form with values:", values);
 
-    const results = await fillFormFields(fields, values, { enabledFieldTypes });
+    const results = await fillFormFields(fields, values, {
+      enabledFieldTypes,
+      overwritePolicy,
+      typing,
+      runId,
+      knownFieldIds,
+      requestValues: requestFieldValues,
+    });
 
     for (const result of results) {
       const field = fields.find((f) => f.id === result.fieldId);
@@ -159,12 +238,19 @@ async function handleFillForm(payload: {
     const successCount = results.filter((r) => r.success).length;
     const failCount = results.filter((r) => !r.success).length;
 
+    const recoveredCount = results.filter((r) => r.recoveryMethod).length;
+
     logger.log(`Fill complete: ${successCount} success, ${failCount} failed`);
+    if (recoveredCount > 0) {
+      logger.log(`${recoveredCount} fields were re-located after their selectors went stale`);
+    }
 
-    if (failCount === 0) {
-      showMenuToast(`Filled ${successCount} fields successfully!`, "success");
-    } else {
-      showMenuToast(`Filled ${successCount}, failed ${failCount}`, "error");
+    if (isTopFrame) {
+      if (failCount === 0) {
+        showMenuToast(`Filled ${successCount} fields successfully!`, "success");
+      } else {
+        showMenuToast(`Filled ${successCount}, failed ${failCount}`, "error");
+      }
     }
 
     return {
@@ -173,7 +259,9 @@ async function handleFillForm(payload: {
     };
   } catch (error) {
     logger.error("Form fill failed:", error);
-    showMenuToast("Form fill failed", "error");
+    if (isTopFrame) {
+      showMenuToast("Form fill failed", "error");
+    }
     return {
       success: false,
       error: error instanceof Error ? error.message : "Fill failed",
@@ -181,6 +269,106 @@ async function handleFillForm(payload: {
   }
 }
 
+/**
+ * Values for fields revealed or changed while filling (dependent selects, newly inserted fields)
+ * Child frames hand them to the top frame, which owns the review panel and the fill settings
+ */
+async function requestFieldValues(fields: DetectedField[]): Promise<AIFillResult> {
+  if (isTopFrame) {
+    return resolveFieldValues(fields);
+  }
+
+  const response: ExtensionResponse<AIFillResult> = await chrome.runtime.sendMessage({
+    type: "RESOLVE_FIELD_VALUES",
+    payload: { fields },
+  });
+  if (!response.success) {
+    throw new Error(response.error || "AI analysis failed");
+  }
+  return response.data || {};
+}
+
+/**
+ * Values for fields revealed mid-fill, through the same hybrid and review path as the first batch
+ */
+async function resolveFieldValues(fields: DetectedField[]): Promise<AIFillResult> {
+  const settings = await getSettings();
+  const values = await generateFieldValues(fields, settings);
+  setMenuLoading(true, "Filling revealed fields...");
+  return values || {};
+}
+
+// How a batch of values is generated
+interface ValueRequest {
+  isRecheckRound?: boolean; // Recheck rounds send every field to the AI, even in hybrid mode
+  screenshot?: string; // Full-page screenshot for vision recheck
+  isVisionRecheck?: boolean;
+}
+
+/**
+ * Generate values for a batch of fields: local generation in hybrid mode, the AI for the rest, then review
+ * Resolves null when the review was cancelled
+ */
+async function generateFieldValues(
+  fields: DetectedField[],
+  settings: ExtensionSettings,
+  { isRecheckRound = false, screenshot, isVisionRecheck = false }: ValueRequest = {}
+): Promise<AIFillResult | null> {
+  // Hybrid mode only matters when an AI provider is active
+  const hybridFill = (settings.hybridFill ?? false) && settings.activeProvider !== "local";
+  const overwritePolicy = settings.overwritePolicy ?? "always";
+
+  // Hybrid mode: well-known fields are generated locally in the first round,
+  // recheck rounds send everything that is still unfilled to the AI
+  const localFields =
+    hybridFill && !isRecheckRound
+      ? fields.filter(
+          (f) => canGenerateLocally(f) && isFieldAllowedByPolicy(f, overwritePolicy)
+        )
+      : [];
+  const aiFields = fields.filter((f) => !localFields.includes(f));
+  const localValues = generateFormValues(localFields, {
+    language: settings.targetLanguage ?? "kr",
+    seed: window.location.href,
+  });
+
+  if (localFields.length > 0) {
+    logger.log(
+      `Hybrid fill: ${localFields.length} fields generated locally, ${aiFields.length} sent to AI`
+    );
+  }
+
+  // Request AI to analyze form (with optional screenshot for vision recheck)
+  let aiValues: AIFillResult = {};
+  if (aiFields.length > 0) {
+    const response = await chrome.runtime.sendMessage({
+      type: "ANALYZE_FORM",
+      payload: {
+        url: window.location.href,
+        fields: aiFields,
+        screenshot, // Include screenshot for vision-based analysis
+        timestamp: Date.now(),
+        locale: getPageLocale(),
+        isVisionRecheck, // Flag for AI to focus on unfilled fields
+      },
+    });
+
+    if (!response.success) {
+      throw new Error(response.error || "AI analysis failed");
+    }
+    aiValues = response.data;
+  }
+
+  const values: AIFillResult = { ...aiValues, ...localValues };
+
+  // Review mode: values can be edited, unticked or regenerated before anything is written
+  if (settings.reviewBeforeFill ?? false) {
+    setMenuLoading(true, "Waiting for review...");
+    return reviewFillValues(fields, values);
+  }
+  return values;
+}
+
 /**
  * Trigger auto-fill from FAB button or keyboard shortcut
  * Includes recheck loop to verify all fields are filled
@@ -190,14 +378,20 @@ async function triggerAutoFill(): Promise<void> {
   try {
     setMenuLoading(true, "Detecting fields...");
     showCancelButton(handleCancelRequest);
+    reviewDecisions.clear();
 
     // Get settings for enabled field types, vision recheck option, and max fill rounds
     const settings = await getSettings();
     const enabledFieldTypes = settings.enabledFieldTypes;
     const enableVisionRecheck = settings.enableVisionRecheck ?? false;
     const maxFillRounds = settings.maxFillRounds ?? 3; // Default 3 if not set
+    const overwritePolicy = settings.overwritePolicy ?? "always";
 
-    let fields = analyzeFormFields();
+    // The first detection opens closed selects once, so the AI sees their options
+    let fields = await collectFormFields({ harvestOptions: true });
+
+    // Fields present before anything was filled; disabled ones can still be revealed by getting enabled
+    const knownFieldIds = fields.filter((f) => !f.isDisabled).map((f) => f.id);
 
     if (fields.length === 0) {
       showMenuToast("No form fields found", "error");
@@ -209,6 +403,9 @@ async function triggerAutoFill(): Promise<void> {
     let totalFilledCount = 0;
     let lastFailedCount = 0;
 
+    // Every round of this auto-fill is undone together
+    const runId = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
     for (let round = 1; round <= maxFillRounds; round++) {
       const isRecheckRound = round > 1;
       const useVision = isRecheckRound && enableVisionRecheck;
@@ -243,20 +440,14 @@ async function triggerAutoFill(): Promise<void> {
         }
       }
 
-      // Request AI to analyze form (with optional screenshot for vision recheck)
-      const response = await chrome.runtime.sendMessage({
-        type: "ANALYZE_FORM",
-        payload: {
-          url: window.location.href,
-          fields,
-          screenshot, // Include screenshot for vision-based analysis
-          timestamp: Date.now(),
-          isVisionRecheck: useVision, // Flag for AI to focus on unfilled fields
-        },
+      const values = await generateFieldValues(fields, settings, {
+        isRecheckRound,
+        screenshot,
+        isVisionRecheck: useVision,
       });
-
-      if (!response.success) {
-        throw new Error(response.error || "AI analysis failed");
+      if (!values) {
+        showMenuToast("Auto-fill cancelled", "error");
+        break;
       }
 
       setMenuLoading(
@@ -266,27 +457,25 @@ async function triggerAutoFill(): Promise<void> {
           : `Round ${round}: Filling remaining fields...`
       );
 
-      const fillResult = await handleFillForm({
+      const fillResult = await fillAllFrames({
         fields,
-        values: response.data,
+        values,
         enabledFieldTypes,
+        overwritePolicy,
+        runId,
+        knownFieldIds,
       });
 
-      if (!fillResult.success) {
+      if (!fillResult.success || !fillResult.data) {
         throw new Error(fillResult.error || "Fill failed");
       }
 
-      const resultData = fillResult.data as {
-        totalFields: number;
-        successCount: number;
-        failCount: number;
-        results: Array<{
-          fieldId: string;
-          success: boolean;
-          skipped?: boolean;
-          error?: string;
-        }>;
-      };
+      const resultData = fillResult.data;
+
+      if (!fillRunIds.includes(runId)) {
+        fillRunIds.push(runId);
+        if (fillRunIds.length > MAX_FILL_HISTORY) fillRunIds.shift();
+      }
 
       totalFilledCount += resultData.successCount;
 
@@ -341,7 +530,7 @@ async function triggerAutoFill(): Promise<void> {
       await sleep(500);
 
       // Re-detect fields from DOM (they may have changed)
-      const freshFields = analyzeFormFields();
+      const freshFields = await collectFormFields();
 
       // Filter to only unfilled fields
       fields = freshFields.filter((f) => {
@@ -369,6 +558,22 @@ async function triggerAutoFill(): Promise<void> {
         return false;
       });
 
+      // Fields the form rejected go back with the value and the error it showed
+      fields = fields.map((f) => {
+        const validationError =
+          f.validationError ||
+          resultData.results.find((r) => r.fieldId === f.id)?.validationError;
+        if (!validationError || values[f.id] === undefined) return f;
+        return {
+          ...f,
+          validationError,
+          rejection: {
+            value: values[f.id],
+            reason: `The form showed the error "${validationError}"`,
+          },
+        };
+      });
+
       if (fields.length === 0) {
         showMenuToast(
           `Filled ${totalFilledCount} fields successfully!`,
@@ -391,6 +596,100 @@ async function triggerAutoFill(): Promise<void> {
   }
 }
 
+/**
+ * Show proposed values of fields not reviewed yet in the review panel
+ * Resolves with the approved values, or null when the review was cancelled
+ * Fields reviewed in an earlier round keep their decision: approved ones pass, excluded ones are dropped
+ */
+async function reviewFillValues(
+  fields: DetectedField[],
+  values: AIFillResult
+): Promise<AIFillResult | null> {
+  const toReview = fields.filter((f) => values[f.id] !== undefined && !reviewDecisions.has(f.id));
+  const passed: AIFillResult = Object.fromEntries(
+    Object.entries(values).filter(([id]) => reviewDecisions.get(id) === true)
+  );
+
+  const items = toReview
+    .map((f) => ({
+      id: f.id,
+      label: f.label,
+      type: f.type,
+      currentValue: f.currentValue || "",
+      proposedValue: toValueText(values[f.id]),
+      options: f.options,
+    }));
+
+  if (items.length === 0) return passed;
+
+  // A single field is re-requested with the shown value marked as rejected
+  const regenerate = async (fieldId: string, rejectedValue: string) => {
+    const field = fields.find((f) => f.id === fieldId);
+    if (!field) return undefined;
+
+    const response: ExtensionResponse<AIFillResult> =
+      await chrome.runtime.sendMessage({
+        type: "ANALYZE_FORM",
+        payload: {
+          url: window.location.href,
+          fields: [
+            {
+              ...field,
+              rejection: { value: rejectedValue, reason: "User asked for a different value" },
+            },
+          ],
+          timestamp: Date.now(),
+          locale: getPageLocale(),
+        },
+      });
+
+    if (!response.success) {
+      throw new Error(response.error || "Regenerate failed");
+    }
+    const value = response.data?.[fieldId];
+    return value === undefined ? undefined : toValueText(value);
+  };
+
+  const approved = await showReviewPanel(items, regenerate);
+  if (!approved) return null;
+
+  toReview.forEach((f) => reviewDecisions.set(f.id, approved[f.id] !== undefined));
+  return { ...passed, ...approved };
+}
+
+/**
+ * Detect fields in every frame of the tab (falls back to this frame only)
+ */
+async function collectFormFields(
+  payload: CollectFieldsPayload = {}
+): Promise<DetectedField[]> {
+  try {
+    const response: ExtensionResponse<DetectedField[]> =
+      await chrome.runtime.sendMessage({ type: "COLLECT_FRAME_FIELDS", payload });
+    if (response?.success && response.data) {
+      return response.data;
+    }
+    logger.warn("Frame field collection failed:", response?.error);
+  } catch (error) {
+    logger.warn("Frame field collection failed:", error);
+  }
+  return payload.harvestOptions ? analyzeFormFieldsWithOptions() : analyzeFormFields();
+}
+
+/**
+ * Fill fields across frames; the background sends each frame its own slice
+ */
+async function fillAllFrames(
+  payload: FillFormPayload
+): Promise<ExtensionResponse<FillSummary>> {
+  try {
+    return await chrome.runtime.sendMessage({ type: "FILL_FRAMES", payload });
+  } catch (error) {
+    logger.warn("Frame fill routing failed, filling this frame only:", error);
+    return handleFillForm(payload);
+  }
+}
+
 /**
  * Sleep helper
  */
@@ -494,6 +793,41 @@ function handleCancelRequest(): void {
     });
 }
 
+/**
+ * Undo the most recent auto-fill in every frame of the tab
+ */
+async function undoLastAutoFill(): Promise<void> {
+  const runId = fillRunIds.pop();
+  if (!runId) {
+    showMenuToast("Nothing to undo", "error");
+    return;
+  }
+
+  try {
+    setMenuLoading(true, "Undoing auto-fill...");
+    let response: ExtensionResponse<number>;
+    try {
+      response = await chrome.runtime.sendMessage({
+        type: "UNDO_FRAMES",
+        payload: { runId },
+      });
+    } catch (error) {
+      logger.warn("Frame undo routing failed, undoing this frame only:", error);
+      response = { success: true, data: await undoFillRun(runId) };
+    }
+
+    if (!response.success) {
+      throw new Error(response.error || "Undo failed");
+    }
+    showMenuToast(`Restored ${response.data ?? 0} fields`, "success");
+  } catch (error) {
+    logger.error("Undo failed:", error);
+    showMenuToast("Undo failed", "error");
+  } finally {
+    setMenuLoading(false);
+  }
+}
+
 /**
  * Toggle language between KR and EN
  */
@@ -530,6 +864,16 @@ function openSettings(): void {
   openSettingsModal();
 }
 
+/**
+ * Undo icon SVG
+ */
+function getUndoIcon(): string {
+  return `<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round">
+    <path d="M3 7v6h6"/>
+    <path d="M21 17a9 9 0 0 0-9-9 9 9 0 0 0-6 2.3L3 13"/>
+  </svg>`;
+}
+
 /**
  * Auto-fill icon SVG
  */
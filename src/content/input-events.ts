@@ -0,0 +1,211 @@
+/**
+ * React-compatible input primitives shared by the form filler and UI-library adapters
+ */
+import type { TypingOptions } from '@/shared/types';
+import { DEFAULT_TYPING_DELAY } from '@/shared/constants';
+import { getElementRoot } from './shadow-dom';
+
+// Native inputs that only accept a complete value (typed character by character they stay empty)
+const WHOLE_VALUE_INPUT_TYPES = ['date', 'time', 'month', 'week', 'datetime-local'];
+
+// Attributes set by input-mask libraries (Inputmask, imask, vanilla-masker...)
+const MASK_ATTRIBUTES = ['data-mask', 'data-inputmask', 'im-insert', 'data-imask', 'mask'];
+
+/**
+ * Set an input's value through the native setter so React notices the change
+ */
+export function setNativeValue(element: HTMLInputElement | HTMLTextAreaElement, value: string): void {
+  const nativeInputValueSetter = Object.getOwnPropertyDescriptor(
+    element instanceof HTMLTextAreaElement
+      ? HTMLTextAreaElement.prototype
+      : HTMLInputElement.prototype,
+    'value'
+  )?.set;
+
+  if (nativeInputValueSetter) {
+    nativeInputValueSetter.call(element, value);
+  } else {
+    element.value = value;
+  }
+}
+
+// How text is written during the current fill (set by the form filler for each fill)
+let typingOptions: TypingOptions = { mode: 'auto', delay: DEFAULT_TYPING_DELAY };
+
+/**
+ * Set how fillTextInput writes text until the next call
+ */
+export function setTypingOptions(options: TypingOptions | undefined): void {
+  typingOptions = options ?? { mode: 'auto', delay: DEFAULT_TYPING_DELAY };
+}
+
+/**
+ * Fill text input with React-compatible event simulation
+ * Masked and key-driven inputs are typed key by key (see setTypingOptions)
+ */
+export async function fillTextInput(
+  element: HTMLInputElement | HTMLTextAreaElement,
+  value: string
+): Promise<void> {
+  const { mode, delay } = typingOptions;
+  if (mode === 'type' || (mode === 'auto' && needsTyping(element))) {
+    await typeText(element, value, delay);
+    return;
+  }
+
+  element.value = '';
+
+  setNativeValue(element, value);
+
+  element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
+  element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
+
+  element.dispatchEvent(
+    new InputEvent('input', {
+      bubbles: true,
+      cancelable: true,
+      inputType: 'insertText',
+      data: value,
+    })
+  );
+
+  await sleep(50);
+}
+
+/**
+ * Type text one character at a time with the full keyboard event sequence
+ * (keydown, keypress, beforeinput, input, keyup), so masks and keydown-driven autocompletes react
+ */
+export async function typeText(
+  element: HTMLInputElement | HTMLTextAreaElement,
+  value: string,
+  delay: number = DEFAULT_TYPING_DELAY
+): Promise<void> {
+  element.focus();
+
+  if (element instanceof HTMLInputElement && WHOLE_VALUE_INPUT_TYPES.includes(element.type)) {
+    setNativeValue(element, value);
+    element.dispatchEvent(new Event('input', { bubbles: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true }));
+    return;
+  }
+
+  // Clear the current value like select-all + backspace
+  if (element.value) {
+    setNativeValue(element, '');
+    element.dispatchEvent(
+      new InputEvent('input', { bubbles: true, cancelable: true, inputType: 'deleteContentBackward' })
+    );
+  }
+
+  let typed = '';
+  for (const char of value) {
+    typed += char;
+    const keyInit = { key: char, code: getKeyCode(char), bubbles: true, cancelable: true };
+    const keydownAllowed = element.dispatchEvent(new KeyboardEvent('keydown', keyInit));
+    element.dispatchEvent(new KeyboardEvent('keypress', { ...keyInit, charCode: char.charCodeAt(0) }));
+
+    const beforeInputAllowed = element.dispatchEvent(
+      new InputEvent('beforeinput', { bubbles: true, cancelable: true, inputType: 'insertText', data: char })
+    );
+
+    // A handler that cancels the key has inserted (or rejected) the character itself
+    if (keydownAllowed && beforeInputAllowed) {
+      // Number inputs drop partial values like "1.", so they get the typed prefix
+      if (element instanceof HTMLInputElement && element.type === 'number') {
+        setNativeValue(element, typed);
+      } else {
+        insertAtCursor(element, char);
+      }
+      element.dispatchEvent(
+        new InputEvent('input', { bubbles: true, cancelable: false, inputType: 'insertText', data: char })
+      );
+    }
+
+    element.dispatchEvent(new KeyboardEvent('keyup', keyInit));
+    await sleep(delay);
+  }
+
+  element.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+/**
+ * Whether an input reformats or reacts to keystrokes, so setting its value at once would be ignored
+ * (input masks, currency formatters and autocomplete comboboxes)
+ */
+function needsTyping(element: HTMLInputElement | HTMLTextAreaElement): boolean {
+  if (MASK_ATTRIBUTES.some((attribute) => element.hasAttribute(attribute))) return true;
+  if (/mask/i.test(typeof element.className === 'string' ? element.className : '')) return true;
+
+  // Mask placeholders like "___-____-____" or "(000) 000-0000"
+  if (/[_#]{2,}|0{3}[-) ]/.test(element.placeholder || '')) return true;
+
+  const autocomplete = element.getAttribute('aria-autocomplete');
+  if (autocomplete === 'list' || autocomplete === 'both') return true;
+
+  // Text inputs that ask for a numeric keyboard are usually formatted (phone, currency)
+  return element instanceof HTMLInputElement && element.type === 'text' &&
+    ['numeric', 'decimal', 'tel'].includes(element.inputMode);
+}
+
+/**
+ * Insert a character at the caret (or at the end where the input has no selection API)
+ */
+function insertAtCursor(element: HTMLInputElement | HTMLTextAreaElement, char: string): void {
+  let start = element.value.length;
+  let end = start;
+  try {
+    start = element.selectionStart ?? start;
+    end = element.selectionEnd ?? end;
+  } catch {
+    // number/email inputs have no selection
+  }
+
+  setNativeValue(element, element.value.slice(0, start) + char + element.value.slice(end));
+
+  try {
+    element.setSelectionRange(start + char.length, start + char.length);
+  } catch {
+    // Same as above
+  }
+}
+
+/**
+ * KeyboardEvent.code for a character (KeyA, Digit1, Space...)
+ */
+function getKeyCode(char: string): string {
+  if (/^[a-z]$/i.test(char)) return `Key${char.toUpperCase()}`;
+  if (/^\d$/.test(char)) return `Digit${char}`;
+  if (char === ' ') return 'Space';
+  return '';
+}
+
+/**
+ * Dispatch a keydown for a single key (Enter, Escape, ArrowDown...)
+ */
+export function pressKey(target: EventTarget, key: string): void {
+  target.dispatchEvent(new KeyboardEvent('keydown', { key, bubbles: true, cancelable: true }));
+}
+
+/**
+ * Inputs of a radio/checkbox group (element is the group container or one of its inputs)
+ */
+export function getChoiceInputs(element: HTMLElement, type: 'radio' | 'checkbox'): HTMLInputElement[] {
+  const selector = `input[type="${type}"]`;
+
+  if (element instanceof HTMLInputElement) {
+    if (!element.name) return [element];
+    return Array.from(
+      getElementRoot(element).querySelectorAll(`${selector}[name="${CSS.escape(element.name)}"]`)
+    );
+  }
+
+  return Array.from(element.querySelectorAll(selector));
+}
+
+/**
+ * Sleep helper
+ */
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
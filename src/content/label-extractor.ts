@@ -0,0 +1,168 @@
+/**
+ * Label extraction
+ * Resolves the human-readable label of a form control using multiple strategies
+ */
+import type { LabelSource } from '@/shared/types';
+import { closestDeep, getElementRoot, getShadowHost } from './shadow-dom';
+
+/**
+ * Extract label using multiple strategies in priority order
+ * Lookups run in the element's own root so labels inside shadow roots are found
+ */
+export function extractLabel(element: Element): { label: string; source: LabelSource } {
+  const el = element as HTMLInputElement;
+  const root = getElementRoot(el);
+
+  // Strategy 1: Direct aria-label
+  const ariaLabel = el.getAttribute('aria-label');
+  if (ariaLabel) {
+    return { label: ariaLabel.trim(), source: 'aria' };
+  }
+
+  // Strategy 2: aria-labelledby
+  // (may list several ids, e.g. MUI Select references its label and itself)
+  const ariaLabelledBy = el.getAttribute('aria-labelledby');
+  if (ariaLabelledBy) {
+    const labelText = ariaLabelledBy
+      .split(/\s+/)
+      .filter((id) => id && id !== el.id)
+      .map((id) => root.getElementById(id)?.textContent?.trim())
+      .filter(Boolean)
+      .join(' ');
+    if (labelText) {
+      return { label: cleanLabel(labelText), source: 'aria' };
+    }
+  }
+
+  // Strategy 3: Associated <label> by htmlFor
+  if (el.id) {
+    const associatedLabel = root.querySelector(`label[for="${CSS.escape(el.id)}"]`);
+    if (associatedLabel?.textContent) {
+      return { label: cleanLabel(associatedLabel.textContent), source: 'associated' };
+    }
+  }
+
+  // Strategy 4: Parent label element (Mantine wraps inputs in label)
+  const parentLabel = el.closest('label');
+  if (parentLabel) {
+    const labelText = Array.from(parentLabel.childNodes)
+      .filter((node) => node.nodeType === Node.TEXT_NODE)
+      .map((node) => node.textContent?.trim())
+      .filter(Boolean)
+      .join(' ');
+    if (labelText) {
+      return { label: cleanLabel(labelText), source: 'associated' };
+    }
+  }
+
+  // Strategy 5: Mantine InputWrapper label
+  const wrapper = el.closest('.mantine-InputWrapper-root, [data-mantine-input-wrapper]');
+  if (wrapper) {
+    const mantineLabel = wrapper.querySelector(
+      '.mantine-InputWrapper-label, .mantine-Input-label'
+    );
+    if (mantineLabel?.textContent) {
+      return { label: cleanLabel(mantineLabel.textContent), source: 'prop' };
+    }
+  }
+
+  // Strategy 6: Previous sibling with label-like content
+  const previousEl = el.previousElementSibling;
+  if (previousEl?.textContent && isLikelyLabel(previousEl)) {
+    return { label: cleanLabel(previousEl.textContent), source: 'associated' };
+  }
+
+  // Strategy 7: Shadow host (web component wrapping the input, e.g. <ds-input label="...">)
+  const host = getShadowHost(el);
+  if (host) {
+    const hostLabel = host.getAttribute('label');
+    if (hostLabel) {
+      return { label: cleanLabel(hostLabel), source: 'prop' };
+    }
+    const fromHost = extractLabel(host);
+    if (fromHost.source !== 'unknown' && fromHost.source !== 'placeholder') {
+      return fromHost;
+    }
+  }
+
+  // Strategy 8: Placeholder
+  const placeholder = el.getAttribute('placeholder');
+  if (placeholder) {
+    return { label: placeholder.trim(), source: 'placeholder' };
+  }
+
+  // Strategy 9: Name attribute as fallback
+  if (el.name) {
+    return { label: formatNameAsLabel(el.name), source: 'prop' };
+  }
+
+  return { label: 'Unknown Field', source: 'unknown' };
+}
+
+/**
+ * Extract the question label of a radio/checkbox group (not the label of one option)
+ */
+export function extractGroupLabel(
+  container: Element | null,
+  firstInput: Element
+): { label: string; source: LabelSource } {
+  if (container) {
+    const fromContainer = extractLabel(container);
+    if (fromContainer.source !== 'unknown' && fromContainer.source !== 'placeholder') {
+      return fromContainer;
+    }
+  }
+
+  const legend = closestDeep(firstInput, 'fieldset')?.querySelector('legend');
+  if (legend?.textContent) {
+    return { label: cleanLabel(legend.textContent), source: 'associated' };
+  }
+
+  const name = firstInput.getAttribute('name');
+  if (name) {
+    return { label: formatNameAsLabel(name), source: 'prop' };
+  }
+
+  return { label: 'Unknown Field', source: 'unknown' };
+}
+
+/**
+ * Clean label text
+ */
+export function cleanLabel(text: string): string {
+  return text
+    .replace(/\s+/g, ' ')
+    .replace(/\*$/, '')
+    .replace(/:\s*$/, '')
+    .trim();
+}
+
+/**
+ * Check if element looks like a label
+ */
+function isLikelyLabel(element: Element): boolean {
+  const tagName = element.tagName.toLowerCase();
+  const text = element.textContent?.trim() || '';
+
+  if (text.length === 0 || text.length > 100) return false;
+
+  if (['label', 'span', 'div', 'p', 'dt'].includes(tagName)) {
+    return true;
+  }
+
+  const hasLabelClass = Array.from(element.classList).some((c) =>
+    c.toLowerCase().includes('label')
+  );
+
+  return hasLabelClass;
+}
+
+/**
+ * Format camelCase/snake_case name as label
+ */
+function formatNameAsLabel(name: string): string {
+  return name
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]/g, ' ')
+    .replace(/\b\w/g, (c) => c.toUpperCase());
+}
@@ -0,0 +1,88 @@
+/**
+ * Option harvester
+ * Pre-scan before prompting: selects that render their options only while open (Mantine, Ant Design, MUI)
+ * are opened briefly, so the AI is given real options instead of inventing values
+ */
+import type { DetectedField } from '@/shared/types';
+import { logger } from '@/utils/logger';
+import { getAdapterForElement } from './adapters';
+import type { SelectOption } from './adapters/types';
+import { getElementRoot } from './shadow-dom';
+
+// Selects opened per analysis (each takes a few hundred ms)
+const MAX_HARVESTED_FIELDS = 30;
+
+// Options kept per select (long lists like countries only need to show the AI the shape)
+const MAX_HARVESTED_OPTIONS = 100;
+
+/**
+ * Attach options to select fields that were detected without any
+ */
+export async function harvestSelectOptions(
+  fields: DetectedField[],
+  elements: Map<DetectedField, Element>
+): Promise<void> {
+  const pending = fields
+    .filter((f) => f.type === 'select' && !f.options?.length && f.fillMethod === 'direct' && !f.isDisabled)
+    .slice(0, MAX_HARVESTED_FIELDS);
+  let harvested = 0;
+
+  for (const field of pending) {
+    const element = elements.get(field);
+    if (!(element instanceof HTMLElement) || !element.isConnected) continue;
+
+    try {
+      const options = await harvestFieldOptions(element);
+      if (!options?.length) continue;
+
+      const capped = options.slice(0, MAX_HARVESTED_OPTIONS);
+      field.options = capped.map((option) => option.label);
+      if (capped.some((option) => option.group)) {
+        field.optionGroups = capped.map((option) => option.group || '');
+      }
+      harvested++;
+    } catch (error) {
+      logger.warn(`Option harvest failed for ${field.id}:`, error);
+    }
+  }
+
+  if (pending.length > 0) {
+    logger.log(`Harvested options for ${harvested}/${pending.length} selects`);
+  }
+}
+
+/**
+ * Options of one select: its listbox when already rendered, otherwise opened briefly through its adapter
+ */
+export async function harvestFieldOptions(element: HTMLElement): Promise<SelectOption[] | undefined> {
+  return readListbox(element) ?? (await getAdapterForElement(element)?.harvestOptions?.(element));
+}
+
+/**
+ * Options of a listbox the element already points at (aria-controls / aria-owns), without opening it
+ */
+function readListbox(element: HTMLElement): SelectOption[] | undefined {
+  const listboxId = element.getAttribute('aria-controls') || element.getAttribute('aria-owns');
+  const listbox = listboxId ? getElementRoot(element).getElementById(listboxId) : null;
+  const options = listbox ? Array.from(listbox.querySelectorAll('[role="option"]')) : [];
+  if (options.length === 0) return undefined;
+
+  return options
+    .map((option) => ({
+      label: option.getAttribute('aria-label') || option.textContent?.trim() || '',
+      group: getGroupLabel(option),
+    }))
+    .filter((option) => option.label);
+}
+
+/**
+ * Label of the ARIA group an option is listed in
+ */
+function getGroupLabel(option: Element): string | undefined {
+  const group = option.closest('[role="group"]');
+  if (!group) return undefined;
+
+  const labelledBy = group.getAttribute('aria-labelledby');
+  const labelElement = labelledBy ? getElementRoot(group).getElementById(labelledBy) : null;
+  return group.getAttribute('aria-label') || labelElement?.textContent?.trim() || undefined;
+}
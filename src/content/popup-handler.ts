@@ -1,14 +1,18 @@
 import type { DetectedField } from '@/shared/types';
 import { logger } from '@/utils/logger';
+import type { FillOutcome } from './adapters/types';
+import { lowestMatchScore, matchOptionElement } from './adapters/utils';
+import { querySelectorDeep } from './shadow-dom';
 
 /**
  * Handle popup/modal-based field selection
  * Opens the modal, navigates to the target value, and selects it
+ * Resolves false when nothing was selected, otherwise the match score of the chosen item
  */
 export async function fillPopupField(
   field: DetectedField,
   value: string
-): Promise<boolean> {
+): Promise<FillOutcome> {
   logger.log(`Filling popup field: ${field.label} with value: ${value}`);
 
   if (!field.popupTriggerSelector) {
@@ -18,7 +22,7 @@ export async function fillPopupField(
 
   try {
     // 1. Find and click the trigger element to open popup
-    const trigger = document.querySelector(field.popupTriggerSelector) as HTMLElement;
+    const trigger = querySelectorDeep(field.popupTriggerSelector) as HTMLElement;
     if (!trigger) {
       throw new Error(`Popup trigger not found: ${field.popupTriggerSelector}`);
     }
@@ -33,16 +37,16 @@ export async function fillPopupField(
     }
 
     // 3. Search for and select the value in the modal
-    const success = await selectValueInModal(modal, value);
+    const outcome = await selectValueInModal(modal, value);
 
     // 4. Confirm selection if needed
-    if (success) {
+    if (outcome) {
       await confirmModalSelection(modal);
     } else {
       await cancelModal(modal);
     }
 
-    return success;
+    return outcome;
   } catch (error) {
     logger.error(`Failed to fill popup field ${field.id}:`, error);
     // Try to close any open modal
@@ -95,7 +99,7 @@ async function findOpenModal(): Promise<HTMLElement | null> {
 async function selectValueInModal(
   modal: HTMLElement,
   value: string
-): Promise<boolean> {
+): Promise<FillOutcome> {
   // Check for category modal (hierarchical tree selection)
   if (isCategoryModal(modal)) {
     return await handleCategoryModal(modal, value);
@@ -124,11 +128,12 @@ async function selectValueInModal(
 async function handleCategoryModal(
   modal: HTMLElement,
   targetCategory: string
-): Promise<boolean> {
+): Promise<FillOutcome> {
   logger.log('Handling category modal for:', targetCategory);
 
   // Parse category path if provided (e.g., "Electronics > Phones > Smartphones")
   const categoryParts = targetCategory.split('>').map((s) => s.trim());
+  const scores: number[] = [];
 
   for (let i = 0; i < categoryParts.length; i++) {
     const part = categoryParts[i];
@@ -149,14 +154,12 @@ async function handleCategoryModal(
     );
 
     let found = false;
-    for (const item of items) {
-      const text = item.textContent?.trim().toLowerCase();
-      if (text && (text === part.toLowerCase() || text.includes(part.toLowerCase()))) {
-        (item as HTMLElement).click();
-        found = true;
-        await sleep(300); // Wait for next level to load
-        break;
-      }
+    const item = matchOptionElement(Array.from(items), part);
+    if (item) {
+      item.element.click();
+      scores.push(item.score);
+      found = true;
+      await sleep(300); // Wait for next level to load
     }
 
     if (!found) {
@@ -170,33 +173,35 @@ async function handleCategoryModal(
     }
   }
 
-  return true;
+  return { matchScore: lowestMatchScore(scores) };
 }
 
 /**
  * Handle modal with list/table items
  */
-async function handleListModal(modal: HTMLElement, value: string): Promise<boolean> {
-  const listItems = modal.querySelectorAll(
-    'tr, li, [role="option"], [role="row"], .mantine-Table-tr'
-  );
-
-  for (const item of listItems) {
-    const text = item.textContent?.toLowerCase();
-    if (text && text.includes(value.toLowerCase())) {
-      // Click the item or find its select button
-      const button = item.querySelector('button, [role="button"]') as HTMLElement;
-      if (button) {
-        button.click();
-      } else {
-        (item as HTMLElement).click();
-      }
-      await sleep(200);
-      return true;
-    }
+async function handleListModal(modal: HTMLElement, value: string): Promise<FillOutcome> {
+  const rowSelector = 'tr, li, [role="option"], [role="row"], .mantine-Table-tr';
+  const listItems = Array.from(modal.querySelectorAll(rowSelector));
+
+  // Match table rows by their cells (a whole row reads "name, team, phone..."), other items by their text
+  const candidates = listItems.flatMap((item) => {
+    const cells = Array.from(item.querySelectorAll('td, [role="gridcell"]'));
+    return cells.length > 0 ? cells : [item];
+  });
+
+  const match = matchOptionElement(candidates, value);
+  if (!match) return false;
+  const item = match.element.closest(rowSelector) ?? match.element;
+
+  // Click the item or find its select button
+  const button = item.querySelector('button, [role="button"]') as HTMLElement;
+  if (button) {
+    button.click();
+  } else {
+    (item as HTMLElement).click();
   }
-
-  return false;
+  await sleep(200);
+  return { matchScore: match.score };
 }
 
 /**
@@ -206,7 +211,7 @@ async function handleSearchModal(
   modal: HTMLElement,
   searchInput: HTMLInputElement,
   value: string
-): Promise<boolean> {
+): Promise<FillOutcome> {
   // Type search value
   searchInput.focus();
   searchInput.value = value;
@@ -221,16 +226,12 @@ async function handleSearchModal(
     '[role="option"], [data-combobox-option], li, tr, .search-result'
   );
 
-  for (const result of results) {
-    const text = result.textContent?.toLowerCase();
-    if (text && text.includes(value.toLowerCase())) {
-      (result as HTMLElement).click();
-      await sleep(200);
-      return true;
-    }
-  }
+  const result = matchOptionElement(Array.from(results), value);
+  if (!result) return false;
 
-  return false;
+  result.element.click();
+  await sleep(200);
+  return { matchScore: result.score };
 }
 
 /**
@@ -0,0 +1,266 @@
+/**
+ * Selector strategy
+ * Builds ranked selector candidates from stable hooks and resolves them back to elements
+ */
+import type { SelectorCandidate, SelectorStrategy } from '@/shared/types';
+import { extractLabel } from './label-extractor';
+import {
+  SHADOW_SELECTOR_SEPARATOR,
+  getElementRoot,
+  getShadowHost,
+  querySelectorAllScoped,
+} from './shadow-dom';
+
+// Base stability of each strategy (divided by the match count to get the score)
+const STRATEGY_SCORES: Record<SelectorStrategy, number> = {
+  id: 100,
+  testid: 95,
+  name: 85,
+  'aria-label': 80,
+  label: 70,
+  class: 50,
+  path: 20,
+};
+
+// Ids generated per mount by component libraries (React useId, Mantine, MUI, rc-*)
+const VOLATILE_ID_SCORE = 30;
+const VOLATILE_ID_PATTERN = /^(:r|«r|mantine-|mui-|rc_|radix-|headlessui-|react-select-|downshift-)|\d{3,}|^[a-f0-9-]{16,}$/i;
+
+// Attributes used as test hooks
+export const TEST_ID_ATTRIBUTES = ['data-testid', 'data-test-id', 'data-test', 'data-cy', 'data-qa'];
+
+// Generated (css-in-js, css modules) or state classes that change between renders
+const UNSTABLE_CLASS_PATTERN = /^(css-|sc-|jsx-|_)|\d|(focused|active|disabled|checked|error|open|hover|selected)/i;
+
+/**
+ * Whether an id looks hand-written rather than generated per mount
+ */
+export function isStableId(id: string): boolean {
+  return !VOLATILE_ID_PATTERN.test(id);
+}
+
+/**
+ * Build a unique CSS selector for an element
+ * Elements inside shadow roots get the host path prepended (host >>> inner)
+ */
+export function buildSelector(element: Element): string {
+  return `${getHostPrefix(element)}${buildPathSelector(element)}`;
+}
+
+/**
+ * Build ranked selector candidates for an element, best first
+ * labelCache can be shared across calls of one analysis to avoid re-extracting labels
+ */
+export function buildSelectorCandidates(
+  element: Element,
+  labelCache: Map<Element, string> = new Map()
+): SelectorCandidate[] {
+  const el = element as HTMLInputElement;
+  const tag = el.tagName.toLowerCase();
+  const root = getElementRoot(el);
+  const hostPrefix = getHostPrefix(el);
+  const candidates: SelectorCandidate[] = [];
+
+  const addCandidate = (strategy: SelectorStrategy, localSelector: string, baseScore = STRATEGY_SCORES[strategy]) => {
+    let matches: Element[];
+    try {
+      matches = Array.from(root.querySelectorAll(localSelector));
+    } catch {
+      return; // Invalid selector
+    }
+
+    const index = matches.indexOf(el);
+    if (index < 0) return;
+
+    candidates.push({
+      strategy,
+      selector: `${hostPrefix}${localSelector}`,
+      index: matches.length > 1 ? index : undefined,
+      score: Math.round(baseScore / matches.length),
+    });
+  };
+
+  if (el.id) {
+    addCandidate('id', `#${CSS.escape(el.id)}`, isStableId(el.id) ? STRATEGY_SCORES.id : VOLATILE_ID_SCORE);
+  }
+
+  // Test hook on the element itself, or on the nearest wrapper (e.g. <TextField data-testid>)
+  const testIdOwner = findTestIdOwner(el);
+  if (testIdOwner) {
+    const { owner, attribute } = testIdOwner;
+    const hook = `[${attribute}="${CSS.escape(owner.getAttribute(attribute) || '')}"]`;
+    if (owner === el) {
+      addCandidate('testid', `${tag}${hook}`);
+    } else {
+      addCandidate('testid', `${hook} ${tag}`, STRATEGY_SCORES.testid - 5);
+    }
+  }
+
+  const name = el.getAttribute('name');
+  if (name) {
+    const nameSelector = `${tag}[name="${CSS.escape(name)}"]`;
+    // Radios and checkboxes share a name, their value tells them apart
+    const value = el.getAttribute('value');
+    addCandidate('name', (el.type === 'radio' || el.type === 'checkbox') && value
+      ? `${nameSelector}[value="${CSS.escape(value)}"]`
+      : nameSelector);
+  }
+
+  const ariaLabel = el.getAttribute('aria-label');
+  if (ariaLabel) {
+    addCandidate('aria-label', `${tag}[aria-label="${CSS.escape(ariaLabel)}"]`);
+  }
+
+  const labelOf = (other: Element) => {
+    if (!labelCache.has(other)) labelCache.set(other, extractLabel(other).label);
+    return labelCache.get(other);
+  };
+
+  const { label, source } = extractLabel(el);
+  if (source !== 'unknown' && source !== 'placeholder') {
+    const sameLabel = Array.from(root.querySelectorAll(tag)).filter((other) => labelOf(other) === label);
+    const index = sameLabel.indexOf(el);
+    if (index >= 0) {
+      candidates.push({
+        strategy: 'label',
+        selector: `${hostPrefix}${tag}`,
+        labelText: label,
+        index: sameLabel.length > 1 ? index : undefined,
+        score: Math.round(STRATEGY_SCORES.label / sameLabel.length),
+      });
+    }
+  }
+
+  const classSelector = buildClassSelector(el, root);
+  if (classSelector) {
+    addCandidate('class', classSelector);
+  }
+
+  addCandidate('path', buildPathSelector(el));
+
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Best candidate usable as a plain CSS selector (unique, not label based)
+ */
+export function getPrimarySelector(candidates: SelectorCandidate[], fallback: string): string {
+  const unique = candidates.find((c) => c.index === undefined && c.strategy !== 'label');
+  return unique?.selector ?? fallback;
+}
+
+/**
+ * Resolve ranked candidates to the first element they still point to
+ * A candidate that was unique at detection but now matches several elements is skipped as ambiguous
+ */
+export function resolveSelectorCandidates(candidates: SelectorCandidate[]): HTMLElement | null {
+  for (const candidate of candidates) {
+    let matches: Element[];
+    try {
+      matches = querySelectorAllScoped(candidate.selector);
+    } catch {
+      continue; // Invalid selector
+    }
+
+    if (candidate.labelText !== undefined) {
+      matches = matches.filter((el) => extractLabel(el).label === candidate.labelText);
+    }
+
+    if (candidate.index === undefined) {
+      if (matches.length === 1) return matches[0] as HTMLElement;
+    } else if (matches[candidate.index]) {
+      return matches[candidate.index] as HTMLElement;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Host path prefix for elements inside shadow roots ('' in the main document)
+ */
+function getHostPrefix(element: Element): string {
+  const host = getShadowHost(element);
+  return host ? `${buildSelector(host)}${SHADOW_SELECTOR_SEPARATOR}` : '';
+}
+
+/**
+ * Find the test hook attribute on the element or its nearest wrappers
+ */
+function findTestIdOwner(element: Element): { owner: Element; attribute: string } | null {
+  let current: Element | null = element;
+
+  for (let depth = 0; current && depth < 4; depth++) {
+    const owner: Element = current;
+    const attribute = TEST_ID_ATTRIBUTES.find((attr) => owner.hasAttribute(attr));
+    if (attribute) return { owner, attribute };
+    current = current.parentElement;
+  }
+
+  return null;
+}
+
+/**
+ * Smallest combination (up to two) of stable classes that identifies the element
+ */
+function buildClassSelector(element: Element, root: Document | ShadowRoot): string | null {
+  const tag = element.tagName.toLowerCase();
+  const classes = Array.from(element.classList)
+    .filter((c) => !UNSTABLE_CLASS_PATTERN.test(c))
+    .map((c) => `.${CSS.escape(c)}`);
+  if (classes.length === 0) return null;
+
+  const combos = [
+    ...classes,
+    ...classes.flatMap((a, i) => classes.slice(i + 1).map((b) => `${a}${b}`)),
+  ];
+  const isUnique = (selector: string) => root.querySelectorAll(selector).length === 1;
+
+  return combos.map((combo) => `${tag}${combo}`).find(isUnique) ?? `${tag}${classes.slice(0, 3).join('')}`;
+}
+
+/**
+ * Build a structural path relative to the element's own root
+ * The path is anchored at the nearest ancestor with a stable id
+ */
+function buildPathSelector(element: Element): string {
+  if (element.id && isStableId(element.id)) {
+    return `#${CSS.escape(element.id)}`;
+  }
+
+  const path: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.body) {
+    if (current !== element && current.id && isStableId(current.id)) {
+      path.unshift(`#${CSS.escape(current.id)}`);
+      break;
+    }
+
+    let selector = current.tagName.toLowerCase();
+
+    const parent: Element | null = current.parentElement;
+    if (parent) {
+      const currentEl = current;
+      const siblings = Array.from(parent.children).filter(
+        (child: Element) => child.tagName === currentEl.tagName
+      );
+      if (siblings.length > 1) {
+        const index = siblings.indexOf(current) + 1;
+        selector += `:nth-of-type(${index})`;
+      }
+    }
+
+    const mantineClass = Array.from(current.classList).find((c) => c.startsWith('mantine-'));
+    if (mantineClass) {
+      selector += `.${mantineClass}`;
+    }
+
+    path.unshift(selector);
+    current = parent;
+
+    if (path.length > 5) break;
+  }
+
+  return path.join(' > ');
+}
@@ -0,0 +1,175 @@
+/**
+ * Semantic classifier
+ * Works out what a field means (email, phone, business number...) from autocomplete,
+ * input type, name/id patterns and Korean/English label keywords
+ */
+import type { FieldType, SemanticType } from '@/shared/types';
+
+interface SemanticRule {
+  type: SemanticType;
+  // Matched against name and id (camelCase split, lowercased)
+  pattern: RegExp;
+  // Label must contain one of these
+  keywords: string[];
+  // Label must equal one of these (for words too generic to match by containment)
+  exactLabels?: string[];
+}
+
+export interface SemanticClassification {
+  semanticType: SemanticType;
+  semanticConfidence: number;
+}
+
+// Confidence per signal (strongest first)
+const AUTOCOMPLETE_CONFIDENCE = 0.95;
+const INPUT_TYPE_CONFIDENCE = 0.9;
+const NAME_PATTERN_CONFIDENCE = 0.8;
+const LABEL_KEYWORD_CONFIDENCE = 0.7;
+// Added when two signals agree
+const AGREEMENT_BONUS = 0.1;
+
+// Widgets that never carry free-form semantic values
+const UNCLASSIFIED_TYPES: FieldType[] = ['checkbox', 'radio', 'switch', 'file'];
+
+// HTML autocomplete tokens
+const AUTOCOMPLETE_TYPES: Record<string, SemanticType> = {
+  email: 'email',
+  tel: 'phone',
+  'tel-national': 'phone',
+  'tel-local': 'phone',
+  name: 'name',
+  'given-name': 'first-name',
+  'family-name': 'last-name',
+  username: 'username',
+  'current-password': 'password',
+  'new-password': 'password',
+  'street-address': 'address',
+  'address-line1': 'address',
+  'address-line2': 'address-detail',
+  'address-line3': 'address-detail',
+  'postal-code': 'postcode',
+  'address-level2': 'city',
+  country: 'country',
+  'country-name': 'country',
+  organization: 'company',
+  url: 'url',
+  bday: 'birthdate',
+  'transaction-amount': 'price',
+};
+
+// Native input types
+const INPUT_TYPES: Record<string, SemanticType> = {
+  email: 'email',
+  tel: 'phone',
+  url: 'url',
+  password: 'password',
+};
+
+// Ordered: specific meanings come before the generic ones they overlap with
+const SEMANTIC_RULES: SemanticRule[] = [
+  { type: 'email', pattern: /e-?mail/, keywords: ['email', 'e-mail', '이메일', '메일'] },
+  { type: 'password', pattern: /pass(word)?|pwd/, keywords: ['password', '비밀번호', '암호'] },
+  {
+    type: 'business-number',
+    pattern: /(biz|business|company|corp|tax)[\s_-]?(reg|registration|no|num|number|id)|brn/,
+    keywords: ['business registration', 'business number', 'tax id', '사업자등록번호', '사업자 번호', '사업자번호'],
+  },
+  { type: 'postcode', pattern: /zip|post(al)?[\s_-]?code/, keywords: ['zip', 'postal code', 'postcode', '우편번호'] },
+  {
+    type: 'phone',
+    pattern: /phone|mobile|tel(ephone)?\b|cell|fax/,
+    keywords: ['phone', 'mobile', 'telephone', 'tel.', '연락처', '전화', '휴대폰', '핸드폰', '휴대전화'],
+  },
+  { type: 'url', pattern: /url|website|homepage/, keywords: ['url', 'website', 'homepage', '홈페이지', '웹사이트'] },
+  { type: 'username', pattern: /user[\s_-]?(name|id)|login|account[\s_-]?id/, keywords: ['username', 'user id', '아이디', '로그인'] },
+  {
+    type: 'address-detail',
+    pattern: /address[\s_-]?(2|line[\s_-]?2|detail)|addr[\s_-]?2|detail[\s_-]?addr/,
+    keywords: ['상세주소', '상세 주소', 'address line 2', 'apartment', 'suite'],
+  },
+  { type: 'address', pattern: /address|addr|street/, keywords: ['address', 'street', '주소', '소재지'] },
+  { type: 'city', pattern: /city|town/, keywords: ['city', '도시', '시/군/구'] },
+  { type: 'country', pattern: /country|nation/, keywords: ['country', '국가'] },
+  { type: 'birthdate', pattern: /birth|dob|bday/, keywords: ['birth', '생년월일', '생일'] },
+  {
+    type: 'company',
+    pattern: /company|corp|organi[sz]ation|business[\s_-]?name|vendor|(store|shop)[\s_-]?name|brand/,
+    keywords: ['company', 'organization', 'business name', '회사', '상호', '업체', '기업', '법인', '브랜드', '상점', '스토어'],
+  },
+  {
+    type: 'product-name',
+    pattern: /(product|item|goods)[\s_-]?name/,
+    keywords: ['product name', 'item name', '상품명', '제품명'],
+  },
+  { type: 'first-name', pattern: /first[\s_-]?name|given[\s_-]?name/, keywords: ['first name', 'given name'] },
+  { type: 'last-name', pattern: /last[\s_-]?name|surname|family[\s_-]?name/, keywords: ['last name', 'surname', 'family name'] },
+  {
+    type: 'name',
+    pattern: /^(full[\s_-]?)?name$|^(user|person|customer|owner|manager|contact|ceo|representative|recipient|receiver|sender)[\s_-]?name$/,
+    keywords: ['full name', 'customer name', 'contact person', '성명', '담당자', '대표자', '수령인', '받는 분', '고객명'],
+    exactLabels: ['name', 'your name', '이름'],
+  },
+  {
+    type: 'price',
+    pattern: /price|amount|cost|fee|salary|budget/,
+    keywords: ['price', 'amount', 'cost', 'fee', '가격', '금액', '판매가', '원가', '정가', '요금', '비용', '공급가'],
+  },
+  { type: 'quantity', pattern: /qty|quantity|count|stock|inventory/, keywords: ['quantity', 'qty', 'stock', '수량', '재고', '개수'] },
+  { type: 'title', pattern: /title|subject|headline/, keywords: ['title', 'subject', '제목'] },
+  {
+    type: 'description',
+    pattern: /desc|description|memo|note|comment|remark|content/,
+    keywords: ['description', 'memo', 'note', 'comment', '설명', '메모', '비고', '내용'],
+  },
+];
+
+/**
+ * Classify the meaning of a field, or return null when no signal matches
+ */
+export function classifySemanticType(
+  element: Element,
+  type: FieldType,
+  label: string
+): SemanticClassification | null {
+  if (UNCLASSIFIED_TYPES.includes(type)) return null;
+
+  const signals: SemanticClassification[] = [];
+
+  const autocomplete = (element.getAttribute('autocomplete') || '').toLowerCase().split(/\s+/).pop() || '';
+  if (AUTOCOMPLETE_TYPES[autocomplete]) {
+    signals.push({ semanticType: AUTOCOMPLETE_TYPES[autocomplete], semanticConfidence: AUTOCOMPLETE_CONFIDENCE });
+  }
+
+  const inputType = element instanceof HTMLInputElement ? element.type : '';
+  if (INPUT_TYPES[inputType]) {
+    signals.push({ semanticType: INPUT_TYPES[inputType], semanticConfidence: INPUT_TYPE_CONFIDENCE });
+  }
+
+  const identifiers = [element.getAttribute('name'), element.id]
+    .filter((value): value is string => Boolean(value))
+    .map((value) => value.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase());
+  const byName = SEMANTIC_RULES.find((rule) => identifiers.some((id) => rule.pattern.test(id)));
+  if (byName) {
+    signals.push({ semanticType: byName.type, semanticConfidence: NAME_PATTERN_CONFIDENCE });
+  }
+
+  const normalizedLabel = label.toLowerCase().trim();
+  const byLabel = SEMANTIC_RULES.find(
+    (rule) =>
+      rule.keywords.some((keyword) => normalizedLabel.includes(keyword)) ||
+      rule.exactLabels?.includes(normalizedLabel)
+  );
+  if (byLabel) {
+    signals.push({ semanticType: byLabel.type, semanticConfidence: LABEL_KEYWORD_CONFIDENCE });
+  }
+
+  if (signals.length === 0) return null;
+
+  // Strongest signal wins; agreeing signals raise its confidence
+  const [best] = signals;
+  const agreeing = signals.filter((signal) => signal.semanticType === best.semanticType).length;
+  return {
+    semanticType: best.semanticType,
+    semanticConfidence: Math.min(0.99, best.semanticConfidence + AGREEMENT_BONUS * (agreeing - 1)),
+  };
+}
@@ -9,13 +9,17 @@ import {
   AVAILABLE_MODELS,
   DEFAULT_ENABLED_FIELD_TYPES,
   DEFAULT_PROVIDER_PROFILES,
+  OVERWRITE_POLICY_INFO,
   PROVIDER_INFO,
+  TYPING_MODE_INFO,
 } from '@/shared/constants';
 import type {
   AIProvider,
   ExtensionSettings,
   FieldType,
+  OverwritePolicy,
   ProviderProfile,
+  TypingMode,
 } from '@/shared/types';
 import { logger } from '@/utils/logger';
 
@@ -23,6 +27,13 @@ import { logger } from '@/utils/logger';
 const MODAL_CONTAINER_ID = 'ai-settings-modal';
 const MODAL_BACKDROP_ID = 'ai-settings-backdrop';
 
+// Provider card icons
+const PROVIDER_ICONS: Record<AIProvider, string> = {
+  openrouter: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="4" y="4" width="16" height="16" rx="2"/><path d="M9 9h6M9 12h6M9 15h4"/></svg>',
+  gemini: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 3l1.5 4.5L18 9l-4.5 1.5L12 15l-1.5-4.5L6 9l4.5-1.5L12 3z"/><path d="M5 19l1 3 1-3M12 17l1 3 1-3M19 19l1 3 1-3"/></svg>',
+  local: '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="2" y="4" width="20" height="12" rx="2"/><path d="M8 20h8M12 16v4"/></svg>',
+};
+
 // State
 let isOpen = false;
 let currentSettings: ExtensionSettings | null = null;
@@ -123,6 +134,9 @@ function getModalContent(): string {
 
   const profile = currentSettings.providers?.[activeProvider] || DEFAULT_PROVIDER_PROFILES[activeProvider];
   const models = AVAILABLE_MODELS.filter(m => m.provider === activeProvider);
+  const overwritePolicy = currentSettings.overwritePolicy ?? 'always';
+  const siteTypingMode = currentSettings.typingModeByDomain?.[getSiteDomain()] ?? '';
+  const globalTypingMode = TYPING_MODE_INFO[currentSettings.typingMode ?? 'auto'].name;
 
   return `
     <div class="modal-header">
@@ -171,17 +185,14 @@ function getModalContent(): string {
       <div class="setting-group">
         <div class="setting-label-header">AI Provider</div>
         <div class="provider-grid">
-          ${(['openrouter', 'gemini'] as AIProvider[]).map(provider => `
+          ${(Object.keys(PROVIDER_INFO) as AIProvider[]).map(provider => `
             <button
               class="provider-card ${activeProvider === provider ? 'active' : ''}"
               data-action="select-provider"
               data-provider="${provider}"
             >
               <div class="provider-icon ${provider}">
-                ${provider === 'openrouter'
-                  ? '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><rect x="4" y="4" width="16" height="16" rx="2"/><path d="M9 9h6M9 12h6M9 15h4"/></svg>'
-                  : '<svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2"><path d="M12 3l1.5 4.5L18 9l-4.5 1.5L12 15l-1.5-4.5L6 9l4.5-1.5L12 3z"/><path d="M5 19l1 3 1-3M12 17l1 3 1-3M19 19l1 3 1-3"/></svg>'
-                }
+                ${PROVIDER_ICONS[provider]}
               </div>
               <div class="provider-info">
                 <span class="provider-name">${PROVIDER_INFO[provider].name}</span>
@@ -193,25 +204,27 @@ function getModalContent(): string {
         </div>
       </div>
 
-      <!-- API Key -->
-      <div class="setting-group">
-        <div class="setting-label-header">API Key</div>
-        <div class="input-group">
-          <input
-            type="password"
-            id="setting-apikey"
-            class="text-input"
-            placeholder="${PROVIDER_INFO[activeProvider].keyPrefix}..."
-            value="${profile.apiKey || ''}"
-          >
-          <button class="icon-btn" data-action="toggle-password" title="Show/Hide">
-            <svg class="eye-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
-              <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/>
-              <circle cx="12" cy="12" r="3"/>
-            </svg>
-          </button>
+      <!-- API Key (the local generator needs none) -->
+      ${activeProvider === 'local' ? '' : `
+        <div class="setting-group">
+          <div class="setting-label-header">API Key</div>
+          <div class="input-group">
+            <input
+              type="password"
+              id="setting-apikey"
+              class="text-input"
+              placeholder="${PROVIDER_INFO[activeProvider].keyPrefix}..."
+              value="${profile.apiKey || ''}"
+            >
+            <button class="icon-btn" data-action="toggle-password" title="Show/Hide">
+              <svg class="eye-icon" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <path d="M1 12s4-8 11-8 11 8 11 8-4 8-11 8-11-8-11-8z"/>
+                <circle cx="12" cy="12" r="3"/>
+              </svg>
+            </button>
+          </div>
         </div>
-      </div>
+      `}
 
       <!-- Model Selection -->
       <div class="setting-group">
@@ -251,6 +264,31 @@ function getModalContent(): string {
         </div>
       </div>
 
+      <!-- Overwrite Policy -->
+      <div class="setting-group">
+        <div class="setting-label-header">Overwrite Policy</div>
+        <select id="setting-overwrite" class="select-input">
+          ${(Object.keys(OVERWRITE_POLICY_INFO) as OverwritePolicy[]).map(policy => `
+            <option value="${policy}" ${overwritePolicy === policy ? 'selected' : ''}>
+              ${OVERWRITE_POLICY_INFO[policy].name} - ${OVERWRITE_POLICY_INFO[policy].description}
+            </option>
+          `).join('')}
+        </select>
+      </div>
+
+      <!-- Typing Mode on this site -->
+      <div class="setting-group">
+        <div class="setting-label-header">Typing on ${getSiteDomain()}</div>
+        <select id="setting-typing" class="select-input">
+          <option value="" ${siteTypingMode === '' ? 'selected' : ''}>Default (${globalTypingMode})</option>
+          ${(Object.keys(TYPING_MODE_INFO) as TypingMode[]).map(mode => `
+            <option value="${mode}" ${siteTypingMode === mode ? 'selected' : ''}>
+              ${TYPING_MODE_INFO[mode].name} - ${TYPING_MODE_INFO[mode].description}
+            </option>
+          `).join('')}
+        </select>
+      </div>
+
       <!-- Vision Recheck -->
       <div class="setting-group">
         <div class="setting-row">
@@ -273,6 +311,49 @@ function getModalContent(): string {
         </div>
       </div>
 
+      <!-- Hybrid Fill -->
+      <div class="setting-group">
+        <div class="setting-row">
+          <div class="setting-info">
+            <span class="setting-icon hybrid">
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <path d="M16 3h5v5M4 20L21 3M21 16v5h-5M15 15l6 6M4 4l5 5"/>
+              </svg>
+            </span>
+            <div class="setting-text">
+              <span class="setting-label">Hybrid Fill</span>
+              <span class="setting-desc">Generate well-known fields locally, AI for the rest</span>
+            </div>
+          </div>
+          <label class="toggle-switch">
+            <input type="checkbox" id="setting-hybrid" ${currentSettings.hybridFill ? 'checked' : ''}>
+            <span class="toggle-slider"></span>
+          </label>
+        </div>
+      </div>
+
+      <!-- Review Before Fill -->
+      <div class="setting-group">
+        <div class="setting-row">
+          <div class="setting-info">
+            <span class="setting-icon review">
+              <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2">
+                <path d="M9 11l3 3L22 4"/>
+                <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"/>
+              </svg>
+            </span>
+            <div class="setting-text">
+              <span class="setting-label">Review Before Fill</span>
+              <span class="setting-desc">Edit or untick proposed values before applying</span>
+            </div>
+          </div>
+          <label class="toggle-switch">
+            <input type="checkbox" id="setting-review" ${currentSettings.reviewBeforeFill ? 'checked' : ''}>
+            <span class="toggle-slider"></span>
+          </label>
+        </div>
+      </div>
+
       <!-- Debug Mode -->
       <div class="setting-group">
         <div class="setting-row">
@@ -391,6 +472,13 @@ function refreshModalContent(modal: HTMLElement): void {
   setupEventListeners(modal);
 }
 
+/**
+ * Domain the per-site typing override is stored under
+ */
+function getSiteDomain(): string {
+  return window.location.hostname.replace(/^www\./, '');
+}
+
 /**
  * Handle save settings
  */
@@ -405,7 +493,11 @@ async function handleSave(): Promise<void> {
   const apiKey = (modal.querySelector('#setting-apikey') as HTMLInputElement)?.value || '';
   const model = (modal.querySelector('#setting-model') as HTMLSelectElement)?.value || '';
   const maxFillRounds = parseInt((modal.querySelector('#setting-maxrounds') as HTMLInputElement)?.value || '3', 10);
+  const overwritePolicy = ((modal.querySelector('#setting-overwrite') as HTMLSelectElement)?.value || 'always') as OverwritePolicy;
+  const siteTypingMode = ((modal.querySelector('#setting-typing') as HTMLSelectElement)?.value || '') as TypingMode | '';
   const enableVisionRecheck = (modal.querySelector('#setting-vision') as HTMLInputElement)?.checked ?? false;
+  const hybridFill = (modal.querySelector('#setting-hybrid') as HTMLInputElement)?.checked ?? false;
+  const reviewBeforeFill = (modal.querySelector('#setting-review') as HTMLInputElement)?.checked ?? false;
   const debugMode = (modal.querySelector('#setting-debug') as HTMLInputElement)?.checked ?? false;
 
   // Gather enabled field types
@@ -421,6 +513,13 @@ async function handleSave(): Promise<void> {
     model,
   };
 
+  // Per-domain typing override for this site ('' removes it)
+  const siteDomain = getSiteDomain();
+  const typingModeByDomain = Object.fromEntries(
+    Object.entries(currentSettings.typingModeByDomain ?? {}).filter(([domain]) => domain !== siteDomain)
+  );
+  if (siteTypingMode) typingModeByDomain[siteDomain] = siteTypingMode;
+
   // Build updated settings
   const updatedSettings: Partial<ExtensionSettings> = {
     enabled,
@@ -431,7 +530,11 @@ async function handleSave(): Promise<void> {
     },
     enabledFieldTypes,
     maxFillRounds,
+    overwritePolicy,
+    typingModeByDomain,
     enableVisionRecheck,
+    hybridFill,
+    reviewBeforeFill,
     debugMode,
   };
 
@@ -666,6 +769,16 @@ function getModalStyles(): string {
       color: #a855f7;
     }
 
+    .setting-icon.hybrid {
+      background: rgba(34, 197, 94, 0.15);
+      color: #22c55e;
+    }
+
+    .setting-icon.review {
+      background: rgba(14, 165, 233, 0.15);
+      color: #0ea5e9;
+    }
+
     .setting-icon.debug {
       background: rgba(249, 115, 22, 0.15);
       color: #f97316;
@@ -796,6 +909,11 @@ function getModalStyles(): string {
       color: #a855f7;
     }
 
+    .provider-icon.local {
+      background: rgba(34, 197, 94, 0.15);
+      color: #22c55e;
+    }
+
     .provider-info {
       display: flex;
       flex-direction: column;
@@ -0,0 +1,121 @@
+/**
+ * Shadow DOM helpers
+ * Lets detection and filling look through open shadow roots (web components, design-system widgets)
+ */
+
+// Separates the shadow host path from the selector inside its shadow root
+export const SHADOW_SELECTOR_SEPARATOR = ' >>> ';
+
+type QueryRoot = Document | ShadowRoot;
+
+/**
+ * Collect open shadow roots below a root (depth-first, nested roots included)
+ */
+export function getShadowRoots(root: QueryRoot = document): ShadowRoot[] {
+  const roots: ShadowRoot[] = [];
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_ELEMENT);
+
+  while (walker.nextNode()) {
+    const shadowRoot = (walker.currentNode as Element).shadowRoot;
+    if (shadowRoot) {
+      roots.push(shadowRoot, ...getShadowRoots(shadowRoot));
+    }
+  }
+
+  return roots;
+}
+
+/**
+ * querySelectorAll that also searches every open shadow root
+ * Callers running many queries pass the roots collected once by getShadowRoots (walking the tree is the slow part)
+ */
+export function querySelectorAllDeep(
+  selector: string,
+  root: QueryRoot = document,
+  shadowRoots: ShadowRoot[] = getShadowRoots(root)
+): Element[] {
+  const results = Array.from(root.querySelectorAll(selector));
+
+  for (const shadowRoot of shadowRoots) {
+    results.push(...Array.from(shadowRoot.querySelectorAll(selector)));
+  }
+
+  return results;
+}
+
+/**
+ * Resolve a selector produced by buildSelector (may contain shadow host segments)
+ */
+export function querySelectorDeep(selector: string): Element | null {
+  const segments = selector.split(SHADOW_SELECTOR_SEPARATOR);
+  let root: QueryRoot = document;
+  let element: Element | null = null;
+
+  for (let i = 0; i < segments.length; i++) {
+    element = root.querySelector(segments[i]);
+    if (!element) return null;
+
+    if (i < segments.length - 1) {
+      if (!element.shadowRoot) return null;
+      root = element.shadowRoot;
+    }
+  }
+
+  return element;
+}
+
+/**
+ * Every match of a buildSelector-style selector inside the root its host path points to
+ */
+export function querySelectorAllScoped(selector: string): Element[] {
+  const segments = selector.split(SHADOW_SELECTOR_SEPARATOR);
+  const localSelector = segments.pop() as string;
+  let root: QueryRoot = document;
+
+  if (segments.length > 0) {
+    const host = querySelectorDeep(segments.join(SHADOW_SELECTOR_SEPARATOR));
+    if (!host?.shadowRoot) return [];
+    root = host.shadowRoot;
+  }
+
+  return Array.from(root.querySelectorAll(localSelector));
+}
+
+/**
+ * Get the document or shadow root that contains an element
+ */
+export function getElementRoot(element: Element): QueryRoot {
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? root : document;
+}
+
+/**
+ * Get the shadow host of an element, or null when it lives in the main document
+ */
+export function getShadowHost(element: Element): Element | null {
+  const root = element.getRootNode();
+  return root instanceof ShadowRoot ? root.host : null;
+}
+
+/**
+ * Element.closest that continues through shadow hosts
+ */
+export function closestDeep(element: Element, selector: string): Element | null {
+  let current: Element | null = element;
+
+  while (current) {
+    const match = current.closest(selector);
+    if (match) return match;
+    current = getShadowHost(current);
+  }
+
+  return null;
+}
+
+/**
+ * Whether any element in the document or its open shadow roots matches the selector
+ */
+export function existsDeep(selector: string): boolean {
+  if (document.querySelector(selector)) return true;
+  return getShadowRoots().some((shadowRoot) => shadowRoot.querySelector(selector) !== null);
+}
@@ -0,0 +1,65 @@
+/**
+ * Validation errors
+ * Reads the error message a form shows for a field (library error text, ARIA error references, native validity)
+ */
+import { VALIDATION_ERROR_SELECTORS } from '@/shared/constants';
+import { closestDeep, getElementRoot } from './shadow-dom';
+
+// Longest error text kept (some forms put whole help paragraphs in the error slot)
+const MAX_ERROR_LENGTH = 200;
+
+/**
+ * Get the validation error shown for a field, or undefined when it looks valid
+ */
+export function getValidationError(element: HTMLElement): string | undefined {
+  const message = readLibraryError(element) ?? readAriaError(element) ?? readNativeError(element);
+  return message ? message.replace(/\s+/g, ' ').trim().slice(0, MAX_ERROR_LENGTH) : undefined;
+}
+
+/**
+ * Error text rendered by a UI library inside the field wrapper (Mantine InputWrapper-error, Ant, MUI, Chakra)
+ */
+function readLibraryError(element: HTMLElement): string | undefined {
+  for (const { wrapper, error } of VALIDATION_ERROR_SELECTORS) {
+    const text = closestDeep(element, wrapper)?.querySelector(error)?.textContent?.trim();
+    if (text) return text;
+  }
+  return undefined;
+}
+
+/**
+ * aria-errormessage target or aria-describedby text of an aria-invalid field
+ * aria-errormessage is only meaningful while aria-invalid="true" (pages keep the message node around)
+ */
+function readAriaError(element: HTMLElement): string | undefined {
+  const root = getElementRoot(element);
+  const readIds = (ids: string | null) =>
+    (ids || '')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map((id) => root.getElementById(id)?.textContent?.trim() || '')
+      .filter(Boolean)
+      .join(' ');
+
+  if (element.getAttribute('aria-invalid') !== 'true') return undefined;
+
+  return readIds(element.getAttribute('aria-errormessage'))
+    || readIds(element.getAttribute('aria-describedby'))
+    || 'Invalid value';
+}
+
+/**
+ * Browser constraint validation message (:invalid)
+ * Empty required fields are left out, they have no rejected value to correct
+ */
+function readNativeError(element: HTMLElement): string | undefined {
+  if (
+    !(element instanceof HTMLInputElement) &&
+    !(element instanceof HTMLTextAreaElement) &&
+    !(element instanceof HTMLSelectElement)
+  ) {
+    return undefined;
+  }
+  if (!element.matches(':invalid') || element.validity.valueMissing) return undefined;
+  return element.validationMessage || 'Invalid value';
+}
@@ -1,5 +1,5 @@
 import React from 'react';
-import { Cpu, Sparkles } from 'lucide-react';
+import { Cpu, HardDrive, Sparkles } from 'lucide-react';
 import type { AIProvider } from '@/shared/types';
 import { PROVIDER_INFO } from '@/shared/constants';
 
@@ -8,11 +8,12 @@ interface ProviderSelectorProps {
   onProviderChange: (provider: AIProvider) => void;
 }
 
-const PROVIDERS: AIProvider[] = ['openrouter', 'gemini'];
+const PROVIDERS: AIProvider[] = ['openrouter', 'gemini', 'local'];
 
 const PROVIDER_ICONS: Record<AIProvider, React.ReactNode> = {
   openrouter: <Cpu className="w-5 h-5" />,
   gemini: <Sparkles className="w-5 h-5" />,
+  local: <HardDrive className="w-5 h-5" />,
 };
 
 export function ProviderSelector({ activeProvider, onProviderChange }: ProviderSelectorProps) {
@@ -21,7 +22,7 @@ export function ProviderSelector({ activeProvider, onProviderChange }: ProviderS
       <label className="block text-sm font-medium text-gray-700">
         AI Provider
       </label>
-      <div className="grid grid-cols-2 gap-3">
+      <div className="grid grid-cols-3 gap-3">
         {PROVIDERS.map((provider) => {
           const info = PROVIDER_INFO[provider];
           const isActive = activeProvider === provider;
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { Keyboard, Plus, X, Check } from 'lucide-react';
+import { TYPING_MODE_INFO } from '@/shared/constants';
+import type { TypingMode } from '@/shared/types';
+
+interface TypingOverrideManagerProps {
+  overrides: Record<string, TypingMode>;
+  onChange: (overrides: Record<string, TypingMode>) => void;
+}
+
+export function TypingOverrideManager({ overrides, onChange }: TypingOverrideManagerProps) {
+  const [isAdding, setIsAdding] = useState(false);
+  const [newDomain, setNewDomain] = useState('');
+  const [newMode, setNewMode] = useState<TypingMode>('type');
+
+  const handleAdd = () => {
+    const domain = newDomain.trim().toLowerCase();
+    if (!domain) return;
+
+    // Basic domain validation
+    if (!/^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*$/.test(domain)) {
+      return;
+    }
+
+    onChange({ ...overrides, [domain]: newMode });
+    setNewDomain('');
+    setIsAdding(false);
+  };
+
+  const handleRemove = (domain: string) => {
+    onChange(Object.fromEntries(Object.entries(overrides).filter(([d]) => d !== domain)));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      handleAdd();
+    } else if (e.key === 'Escape') {
+      setIsAdding(false);
+      setNewDomain('');
+    }
+  };
+
+  const domains = Object.keys(overrides);
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+          <Keyboard className="h-4 w-4" />
+          Typing Mode per Domain
+        </label>
+        {!isAdding && (
+          <button
+            type="button"
+            onClick={() => setIsAdding(true)}
+            className="text-xs text-primary hover:text-primary/80 flex items-center gap-1"
+          >
+            <Plus className="h-3 w-3" />
+            Add Override
+          </button>
+        )}
+      </div>
+
+      {/* Existing overrides */}
+      {domains.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {domains.map((domain) => (
+            <span
+              key={domain}
+              className="px-2 py-0.5 bg-primary/10 text-primary text-xs rounded-full flex items-center gap-1"
+            >
+              {domain}: {TYPING_MODE_INFO[overrides[domain]].name}
+              <button
+                type="button"
+                onClick={() => handleRemove(domain)}
+                className="hover:text-red-500"
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Add new override form */}
+      {isAdding && (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={newDomain}
+            onChange={(e) => setNewDomain(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="example.com"
+            className="flex-1 min-w-0 px-3 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary"
+            autoFocus
+          />
+          <select
+            value={newMode}
+            onChange={(e) => setNewMode(e.target.value as TypingMode)}
+            className="px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-1 focus:ring-primary"
+          >
+            {(Object.keys(TYPING_MODE_INFO) as TypingMode[]).map((mode) => (
+              <option key={mode} value={mode}>
+                {TYPING_MODE_INFO[mode].name}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={handleAdd}
+            disabled={!newDomain.trim()}
+            className="py-1.5 px-3 bg-primary text-white text-sm rounded font-medium disabled:opacity-50 flex items-center gap-1"
+          >
+            <Check className="h-3 w-3" />
+          </button>
+          <button
+            type="button"
+            onClick={() => {
+              setIsAdding(false);
+              setNewDomain('');
+            }}
+            className="py-1.5 px-3 border border-gray-300 text-gray-600 text-sm rounded hover:bg-gray-50"
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Overrides the typing mode on a domain and its subdomains.
+      </p>
+    </div>
+  );
+}
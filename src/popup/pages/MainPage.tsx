@@ -198,7 +198,9 @@ export function MainPage() {
       </div>
 
       <div className="text-xs text-gray-400 text-center">
-        {settings.activeProvider === 'gemini' ? (
+        {settings.activeProvider === 'local' ? (
+          <>Provider: Local Generator | Offline</>
+        ) : settings.activeProvider === 'gemini' ? (
           <>Provider: Gemini | Model: {settings.providers?.gemini?.model || 'gemini-2.5-flash'}</>
         ) : (
           <>Provider: OpenRouter | Model: {(settings.model || '').split('/').pop()}</>
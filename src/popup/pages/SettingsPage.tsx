@@ -1,21 +1,30 @@
 import {
   DEFAULT_ENABLED_FIELD_TYPES,
   DEFAULT_PROVIDER_PROFILES,
+  DEFAULT_TYPING_DELAY,
+  OVERWRITE_POLICY_INFO,
+  TYPING_MODE_INFO,
 } from "@/shared/constants";
 import type {
   AIProvider,
   CustomModel,
   FieldType,
+  OverwritePolicy,
   PromptTemplate,
   ProviderProfile,
+  TypingMode,
 } from "@/shared/types";
 import {
   ArrowLeft,
   Bug,
   Eye,
   Globe,
+  Keyboard,
+  ListChecks,
+  PenLine,
   Power,
   RotateCcw,
+  Shuffle,
   Save,
   Trash2,
 } from "lucide-react";
@@ -26,6 +35,7 @@ import { FieldTypeSelector } from "../components/FieldTypeSelector";
 import { ModelSelector } from "../components/ModelSelector";
 import { PromptTemplateManager } from "../components/PromptTemplateManager";
 import { ProviderSelector } from "../components/ProviderSelector";
+import { TypingOverrideManager } from "../components/TypingOverrideManager";
 import { usePopupStore } from "../store";
 
 export function SettingsPage() {
@@ -47,6 +57,22 @@ export function SettingsPage() {
   const [enableVisionRecheck, setEnableVisionRecheck] = useState(
     settings.enableVisionRecheck ?? false
   );
+  const [hybridFill, setHybridFill] = useState(settings.hybridFill ?? false);
+  const [reviewBeforeFill, setReviewBeforeFill] = useState(
+    settings.reviewBeforeFill ?? false
+  );
+  const [overwritePolicy, setOverwritePolicy] = useState<OverwritePolicy>(
+    settings.overwritePolicy ?? "always"
+  );
+  const [typingMode, setTypingMode] = useState<TypingMode>(
+    settings.typingMode ?? "auto"
+  );
+  const [typingDelay, setTypingDelay] = useState(
+    settings.typingDelay ?? DEFAULT_TYPING_DELAY
+  );
+  const [typingModeByDomain, setTypingModeByDomain] = useState<
+    Record<string, TypingMode>
+  >(settings.typingModeByDomain ?? {});
   const [targetLanguage, setTargetLanguage] = useState<"kr" | "en">(
     settings.targetLanguage ?? "kr"
   );
@@ -89,6 +115,12 @@ export function SettingsPage() {
       enabled,
       enabledFieldTypes,
       enableVisionRecheck,
+      hybridFill,
+      reviewBeforeFill,
+      overwritePolicy,
+      typingMode,
+      typingDelay,
+      typingModeByDomain,
       targetLanguage,
       debugMode,
       customDomains,
@@ -191,23 +223,25 @@ export function SettingsPage() {
           onProviderChange={handleProviderChange}
         />
 
-        {/* API Key Manager - Provider Specific */}
-        <ApiKeyManager
-          provider={activeProvider}
-          apiKey={currentProfile.apiKey}
-          apiKeys={currentProfile.apiKeys || []}
-          primaryApiKeyId={currentProfile.primaryApiKeyId}
-          onApiKeyChange={(key) =>
-            updateCurrentProviderProfile({ apiKey: key })
-          }
-          onApiKeysChange={(keys) =>
-            updateCurrentProviderProfile({ apiKeys: keys })
-          }
-          onPrimaryChange={(id) =>
-            updateCurrentProviderProfile({ primaryApiKeyId: id })
-          }
-          loading={loading}
-        />
+        {/* API Key Manager - Provider Specific (the local generator needs none) */}
+        {activeProvider !== "local" && (
+          <ApiKeyManager
+            provider={activeProvider}
+            apiKey={currentProfile.apiKey}
+            apiKeys={currentProfile.apiKeys || []}
+            primaryApiKeyId={currentProfile.primaryApiKeyId}
+            onApiKeyChange={(key) =>
+              updateCurrentProviderProfile({ apiKey: key })
+            }
+            onApiKeysChange={(keys) =>
+              updateCurrentProviderProfile({ apiKeys: keys })
+            }
+            onPrimaryChange={(id) =>
+              updateCurrentProviderProfile({ primaryApiKeyId: id })
+            }
+            loading={loading}
+          />
+        )}
 
         {/* Model Selector - Provider Specific */}
         <ModelSelector
@@ -258,6 +292,83 @@ export function SettingsPage() {
           </p>
         </div>
 
+        {/* Overwrite Policy */}
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <PenLine className="h-4 w-4" />
+            Overwrite Policy
+          </label>
+          <div className="flex gap-2">
+            {(Object.keys(OVERWRITE_POLICY_INFO) as OverwritePolicy[]).map(
+              (policy) => (
+                <button
+                  key={policy}
+                  onClick={() => setOverwritePolicy(policy)}
+                  className={`flex-1 py-2 px-2 rounded-lg text-xs font-medium transition-colors ${
+                    overwritePolicy === policy
+                      ? "bg-primary text-white"
+                      : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                  }`}
+                >
+                  {OVERWRITE_POLICY_INFO[policy].name}
+                </button>
+              )
+            )}
+          </div>
+          <p className="text-xs text-gray-500">
+            {OVERWRITE_POLICY_INFO[overwritePolicy].description}
+          </p>
+        </div>
+
+        {/* Typing Mode */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Keyboard className="h-4 w-4" />
+              Typing Mode
+            </label>
+            <div className="flex items-center gap-1 text-xs text-gray-500">
+              <input
+                type="number"
+                min={0}
+                max={500}
+                value={typingDelay}
+                onChange={(e) =>
+                  setTypingDelay(
+                    Math.max(0, Math.min(500, parseInt(e.target.value) || 0))
+                  )
+                }
+                className="w-16 px-2 py-1 text-sm text-center border border-gray-300 rounded focus:ring-1 focus:ring-primary"
+              />
+              ms/key
+            </div>
+          </div>
+          <div className="flex gap-2">
+            {(Object.keys(TYPING_MODE_INFO) as TypingMode[]).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setTypingMode(mode)}
+                className={`flex-1 py-2 px-2 rounded-lg text-xs font-medium transition-colors ${
+                  typingMode === mode
+                    ? "bg-primary text-white"
+                    : "bg-gray-100 text-gray-700 hover:bg-gray-200"
+                }`}
+              >
+                {TYPING_MODE_INFO[mode].name}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500">
+            {TYPING_MODE_INFO[typingMode].description}
+          </p>
+        </div>
+
+        {/* Typing Mode Overrides */}
+        <TypingOverrideManager
+          overrides={typingModeByDomain}
+          onChange={setTypingModeByDomain}
+        />
+
         {/* Vision Recheck Option */}
         <div className="space-y-2">
           <div className="flex items-center justify-between">
@@ -284,6 +395,58 @@ export function SettingsPage() {
           </p>
         </div>
 
+        {/* Hybrid Fill Option */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <Shuffle className="h-4 w-4" />
+              Hybrid Fill
+            </label>
+            <button
+              onClick={() => setHybridFill(!hybridFill)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                hybridFill ? "bg-primary" : "bg-gray-300"
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  hybridFill ? "translate-x-6" : "translate-x-1"
+                }`}
+              />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Generate well-known fields (email, phone, dates, addresses...)
+            locally and send only the rest to the AI (saves API quota)
+          </p>
+        </div>
+
+        {/* Review Before Fill Option */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <ListChecks className="h-4 w-4" />
+              Review Before Fill
+            </label>
+            <button
+              onClick={() => setReviewBeforeFill(!reviewBeforeFill)}
+              className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                reviewBeforeFill ? "bg-primary" : "bg-gray-300"
+              }`}
+            >
+              <span
+                className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                  reviewBeforeFill ? "translate-x-6" : "translate-x-1"
+                }`}
+              />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Show proposed values in a panel to edit, untick or regenerate
+            before they are applied
+          </p>
+        </div>
+
         {/* Prompt Template Manager */}
         <PromptTemplateManager
           templates={promptTemplates}
@@ -1,10 +1,10 @@
 import { useState } from 'react';
-import { Sparkles } from 'lucide-react';
+import { Check, Sparkles } from 'lucide-react';
 import { ApiKeyInput } from '../components/ApiKeyInput';
 import { ModelSelector } from '../components/ModelSelector';
 import { ProviderSelector } from '../components/ProviderSelector';
 import { usePopupStore } from '../store';
-import { DEFAULT_OPENROUTER_MODEL, DEFAULT_GEMINI_MODEL, PROVIDER_INFO } from '@/shared/constants';
+import { DEFAULT_OPENROUTER_MODEL, DEFAULT_PROVIDER_PROFILES, PROVIDER_INFO } from '@/shared/constants';
 import type { AIProvider } from '@/shared/types';
 
 export function SetupPage() {
@@ -16,7 +16,7 @@ export function SetupPage() {
   const handleProviderChange = (newProvider: AIProvider) => {
     setProvider(newProvider);
     // Reset model to default for new provider
-    setModel(newProvider === 'openrouter' ? DEFAULT_OPENROUTER_MODEL : DEFAULT_GEMINI_MODEL);
+    setModel(DEFAULT_PROVIDER_PROFILES[newProvider].model);
   };
 
   const handleSubmit = async () => {
@@ -24,12 +24,8 @@ export function SetupPage() {
     await updateSettings({
       activeProvider: provider,
       providers: {
-        openrouter: provider === 'openrouter'
-          ? { apiKey, apiKeys: [], model, customModels: [] }
-          : { apiKey: '', apiKeys: [], model: DEFAULT_OPENROUTER_MODEL, customModels: [] },
-        gemini: provider === 'gemini'
-          ? { apiKey, apiKeys: [], model, customModels: [] }
-          : { apiKey: '', apiKeys: [], model: DEFAULT_GEMINI_MODEL, customModels: [] },
+        ...DEFAULT_PROVIDER_PROFILES,
+        [provider]: { apiKey: provider === 'local' ? '' : apiKey, apiKeys: [], model, customModels: [] },
       },
       // Keep legacy fields in sync for backward compatibility
       apiKey: provider === 'openrouter' ? apiKey : '',
@@ -59,34 +55,55 @@ export function SetupPage() {
         />
       </div>
 
-      <div className="border-t pt-4">
-        <h2 className="text-sm font-semibold text-gray-700 mb-3">
-          {providerInfo.name} API Key
-        </h2>
-        <ApiKeyInput
-          value={apiKey}
-          onChange={setApiKey}
-          onSubmit={handleSubmit}
-          loading={loading}
-          provider={provider}
-        />
-      </div>
+      {provider === 'local' ? (
+        <div className="border-t pt-4 space-y-3">
+          <p className="text-sm text-gray-500">
+            Values are generated on this device from each field's type, options and constraints. No API key or network access needed.
+          </p>
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={loading}
+            className="w-full py-2 px-4 bg-primary text-white rounded-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed hover:bg-primary/90 transition-colors flex items-center justify-center gap-2"
+          >
+            <Check className="h-4 w-4" />
+            Continue
+          </button>
+        </div>
+      ) : (
+        <>
+          <div className="border-t pt-4">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">
+              {providerInfo.name} API Key
+            </h2>
+            <ApiKeyInput
+              value={apiKey}
+              onChange={setApiKey}
+              onSubmit={handleSubmit}
+              loading={loading}
+              provider={provider}
+            />
+          </div>
 
-      <div className="border-t pt-4">
-        <ModelSelector value={model} onChange={setModel} provider={provider} />
-      </div>
+          <div className="border-t pt-4">
+            <ModelSelector value={model} onChange={setModel} provider={provider} />
+          </div>
+        </>
+      )}
 
-      <p className="text-xs text-gray-400 text-center">
-        Get your API key from{' '}
-        <a
-          href={provider === 'openrouter' ? 'https://openrouter.ai/keys' : 'https://aistudio.google.com/apikey'}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="text-primary hover:underline"
-        >
-          {provider === 'openrouter' ? 'openrouter.ai/keys' : 'aistudio.google.com/apikey'}
-        </a>
-      </p>
+      {provider !== 'local' && (
+        <p className="text-xs text-gray-400 text-center">
+          Get your API key from{' '}
+          <a
+            href={provider === 'openrouter' ? 'https://openrouter.ai/keys' : 'https://aistudio.google.com/apikey'}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-primary hover:underline"
+          >
+            {provider === 'openrouter' ? 'openrouter.ai/keys' : 'aistudio.google.com/apikey'}
+          </a>
+        </p>
+      )}
     </div>
   );
 }
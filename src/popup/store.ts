@@ -25,10 +25,10 @@ export const usePopupStore = create<PopupState>((set) => ({
     set({ loading: true, error: null });
     try {
       const settings = await getSettings();
-      // Check if active provider has an API key configured
+      // Check if active provider has an API key configured (the local generator needs none)
       const activeProvider = settings.activeProvider || 'openrouter';
       const providerProfile = settings.providers?.[activeProvider];
-      const hasKey = Boolean(providerProfile?.apiKey || settings.apiKey);
+      const hasKey = activeProvider === 'local' || Boolean(providerProfile?.apiKey || settings.apiKey);
       set({
         settings,
         loading: false,
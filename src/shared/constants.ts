@@ -1,4 +1,4 @@
-import type { AvailableModel, FieldType, AIProvider, ProviderProfile } from './types';
+import type { AvailableModel, FieldType, AIProvider, OverwritePolicy, ProviderProfile, TypingMode } from './types';
 
 // API URLs
 export const OPENROUTER_API_URL = 'https://openrouter.ai/api/v1/chat/completions';
@@ -7,6 +7,7 @@ export const GEMINI_API_URL = 'https://generativelanguage.googleapis.com/v1beta'
 // Default models per provider
 export const DEFAULT_OPENROUTER_MODEL = 'google/gemini-2.0-flash-exp:free';
 export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+export const LOCAL_GENERATOR_MODEL = 'local-generator';
 export const DEFAULT_MODEL = DEFAULT_OPENROUTER_MODEL; // Legacy
 
 // Provider display info
@@ -21,6 +22,11 @@ export const PROVIDER_INFO: Record<AIProvider, { name: string; description: stri
     description: 'Direct access to Google Gemini models',
     keyPrefix: 'AIza',
   },
+  local: {
+    name: 'Local Generator',
+    description: 'Built-in offline data generator (no API key, no network)',
+    keyPrefix: '',
+  },
 };
 
 // Available models (vision-capable models listed first)
@@ -123,6 +129,15 @@ export const AVAILABLE_MODELS: AvailableModel[] = [
     supportsVision: true,
     provider: 'gemini',
   },
+  // Local generator
+  {
+    id: LOCAL_GENERATOR_MODEL,
+    name: 'Built-in Generator',
+    cost: 'Free (offline)',
+    recommended: true,
+    supportsVision: false,
+    provider: 'local',
+  },
 ];
 
 // Default enabled field types
@@ -139,6 +154,41 @@ export const DEFAULT_ENABLED_FIELD_TYPES: FieldType[] = [
   'dynamic',
 ];
 
+// Overwrite policy options shown in settings
+export const OVERWRITE_POLICY_INFO: Record<OverwritePolicy, { name: string; description: string }> = {
+  always: {
+    name: 'Always overwrite',
+    description: 'Fill every field, replacing existing values',
+  },
+  'empty-only': {
+    name: 'Empty fields only',
+    description: 'Keep values that are already entered',
+  },
+  'required-only': {
+    name: 'Required fields only',
+    description: 'Leave optional fields untouched',
+  },
+};
+
+// Typing mode options shown in settings
+export const TYPING_MODE_INFO: Record<TypingMode, { name: string; description: string }> = {
+  auto: {
+    name: 'Auto',
+    description: 'Type key by key only into masked and autocomplete inputs',
+  },
+  paste: {
+    name: 'Paste',
+    description: 'Set every value at once (fastest)',
+  },
+  type: {
+    name: 'Type',
+    description: 'Type every text value key by key',
+  },
+};
+
+// Default delay between keystrokes when typing (ms)
+export const DEFAULT_TYPING_DELAY = 30;
+
 // Default provider profiles
 export const DEFAULT_PROVIDER_PROFILES: Record<AIProvider, ProviderProfile> = {
   openrouter: {
@@ -155,6 +205,13 @@ export const DEFAULT_PROVIDER_PROFILES: Record<AIProvider, ProviderProfile> = {
     model: DEFAULT_GEMINI_MODEL,
     customModels: [],
   },
+  local: {
+    apiKey: '',
+    apiKeys: [],
+    primaryApiKeyId: undefined,
+    model: LOCAL_GENERATOR_MODEL,
+    customModels: [],
+  },
 };
 
 // Default settings
@@ -174,6 +231,12 @@ export const DEFAULT_SETTINGS = {
   enabled: true,
   enabledFieldTypes: DEFAULT_ENABLED_FIELD_TYPES,
   enableVisionRecheck: false, // Disabled by default to save API tokens
+  hybridFill: false, // Every field goes to the AI by default
+  reviewBeforeFill: false, // Values are applied right away by default
+  overwritePolicy: 'always' as const, // Every field is filled by default
+  typingMode: 'auto' as const, // Type only where a mask or autocomplete is detected
+  typingDelay: DEFAULT_TYPING_DELAY, // Milliseconds between keystrokes
+  typingModeByDomain: {} as Record<string, TypingMode>, // No per-domain overrides
   targetLanguage: 'kr' as const, // Korean by default
   debugMode: false, // Streaming debug mode disabled by default
   customDomains: [] as string[], // Additional whitelisted domains
@@ -209,6 +272,12 @@ export const DEFAULT_SYSTEM_PROMPT = `You are a form-filling assistant for testi
 3. Use Korean values where appropriate (this is a Korean business app)
 4. For required fields, always provide a value
 5. For select fields, choose from the available options if provided
+   - For radio fields, return exactly one of the listed options
+   - For checkbox fields with options (checkbox groups), return the options to check as a comma-separated list
+   - For fields with multiple: true, return a JSON array of values (options for selects, tags for text),
+     with at least constraints.minItems and at most constraints.maxItems entries (e.g. ["Red", "Blue"])
+   - Respect each field's constraints (min/max, step, minLength/maxLength, pattern, inputType such as email/tel/url)
+   - Match each field's semanticType when present (e.g. "postcode" → 5-digit Korean postal code, "business-number" → 123-45-67890)
 6. SKIP these fields (do not include in response):
    - Fields with fillMethod: "skip" (disabled)
    - Fields with fillMethod: "computed" (auto-generated)
@@ -223,14 +292,36 @@ export const DEFAULT_SYSTEM_PROMPT = `You are a form-filling assistant for testi
 - Phone: Korean format with random numbers (e.g., "010-XXXX-XXXX")
 - Email: Random realistic emails
 - Address: Random Korean addresses
-- Dates: Random dates within reasonable ranges (YYYY-MM-DD format)
+- Dates: Random dates within reasonable ranges, written by the field's dateKind: date "YYYY-MM-DD", time "HH:mm", month "YYYY-MM", year "YYYY",
+  datetime {"date": "YYYY-MM-DD", "time": "HH:mm"}, date-range {"start": "YYYY-MM-DD", "end": "YYYY-MM-DD"} with start before end
+  (the filler converts them to the format the form shows)
 - Numbers: Random values within appropriate ranges
 - Prices: Random amounts that look realistic
 
 Return ONLY the JSON object, no other text.`;
 
+// Library-independent selectors (used on every page)
+export const GENERIC_SELECTORS = {
+  // Rich text editors (react-quill, TipTap, ProseMirror)
+  richText: '.ql-editor, .mantine-RichTextEditor-content, .tiptap, .ProseMirror, [contenteditable="true"]:not(.mantine-Input-input)',
+  // Native file inputs
+  fileInput: 'input[type="file"]',
+  // Dynamic form inputs (marketplace attributes pattern)
+  dynamicInput: '[name^="dynamic-"]',
+};
+
+// Inline validation messages: the field wrapper and the error text rendered inside it
+export const VALIDATION_ERROR_SELECTORS = [
+  { wrapper: '.mantine-InputWrapper-root, [class*="InputWrapper-root"]', error: '.mantine-InputWrapper-error, [class*="InputWrapper-error"]' },
+  { wrapper: '.ant-form-item', error: '.ant-form-item-explain-error' },
+  { wrapper: '.MuiFormControl-root', error: '.MuiFormHelperText-root.Mui-error' },
+  { wrapper: '.chakra-form-control', error: '.chakra-form__error-message' },
+];
+
 // Mantine component selectors
 export const MANTINE_SELECTORS = {
+  // Presence check
+  root: '[class*="mantine-"]',
   // Text inputs
   textInput: '.mantine-TextInput-input, input.mantine-Input-input',
   textarea: '.mantine-Textarea-input, textarea.mantine-Input-input',
@@ -248,12 +339,64 @@ export const MANTINE_SELECTORS = {
   timeInput: '.mantine-TimeInput-input',
   // Number
   numberInput: '.mantine-NumberInput-input',
-  // Rich text editors (react-quill, TipTap, ProseMirror)
-  richText: '.ql-editor, .mantine-RichTextEditor-content, .tiptap, .ProseMirror, [contenteditable="true"]:not(.mantine-Input-input)',
   // File upload
-  fileInput: 'input[type="file"], .mantine-FileInput-input, .mantine-Dropzone-root',
-  // Dynamic form inputs (marketplace attributes pattern)
-  dynamicInput: '[name^="dynamic-"]',
+  fileInput: '.mantine-FileInput-input, .mantine-Dropzone-root',
   // Color input
   colorInput: '.mantine-ColorInput-input',
 };
+
+// Ant Design component selectors
+export const ANT_DESIGN_SELECTORS = {
+  // Presence check
+  root: '[class^="ant-"], [class*=" ant-"]',
+  // Text inputs
+  textInput: 'input.ant-input',
+  textarea: 'textarea.ant-input',
+  // Select (the search input inside the selector carries the Form.Item id)
+  select: '.ant-select-selection-search-input',
+  // Checkbox & Radio
+  checkbox: '.ant-checkbox-input',
+  radio: '.ant-radio-input',
+  switch: 'button.ant-switch',
+  // Date & Time pickers
+  dateInput: '.ant-picker-input > input',
+  // Number
+  numberInput: '.ant-input-number-input',
+};
+
+// MUI (Material UI) component selectors
+export const MUI_SELECTORS = {
+  // Presence check
+  root: '[class^="Mui"], [class*=" Mui"]',
+  // Text inputs (Select/Autocomplete inputs are matched separately)
+  textInput: 'input.MuiInputBase-input:not(.MuiSelect-nativeInput):not(.MuiAutocomplete-input)',
+  textarea: 'textarea.MuiInputBase-input:not([aria-hidden="true"])',
+  // Select & Autocomplete
+  select: '.MuiSelect-select',
+  autocomplete: '.MuiAutocomplete-input',
+  // Checkbox & Radio
+  checkbox: '.MuiCheckbox-root input',
+  radio: '.MuiRadio-root input',
+  switch: '.MuiSwitch-input',
+  // Date pickers (text field with a "Choose date" adornment)
+  dateInput: '.MuiInputBase-root:has(button[aria-label^="Choose date"]) input',
+  // Helper inputs that must not be detected as fields
+  ignore: '.MuiSelect-nativeInput, textarea[aria-hidden="true"]',
+};
+
+// Chakra UI component selectors
+export const CHAKRA_SELECTORS = {
+  // Presence check
+  root: '[class^="chakra-"], [class*=" chakra-"]',
+  // Text inputs
+  textInput: 'input.chakra-input',
+  textarea: 'textarea.chakra-textarea',
+  // Native select styled by Chakra
+  select: 'select.chakra-select',
+  // Checkbox & Radio
+  checkbox: '.chakra-checkbox__input',
+  radio: '.chakra-radio__input',
+  switch: '.chakra-switch__input',
+  // Number
+  numberInput: '.chakra-numberinput__field',
+};
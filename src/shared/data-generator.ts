@@ -0,0 +1,412 @@
+/**
+ * Data generator - builds realistic test values without calling an AI model
+ * Values come from the field's semantic type, options and constraints, and are
+ * seeded per page and field so the same form always gets the same data
+ */
+import type { AIFillResult, AIFillValue, DetectedField, SemanticType } from './types';
+import { DATE_RANGE_SEPARATOR } from './date-format';
+
+export type GeneratorLanguage = 'kr' | 'en';
+
+export interface GeneratorOptions {
+  language: GeneratorLanguage;
+  seed: string; // Usually the page URL
+}
+
+// Seeded random source for one field
+interface Random {
+  next: () => number; // [0, 1)
+  int: (min: number, max: number) => number; // Inclusive
+  pick: <T>(items: readonly T[]) => T;
+}
+
+// Names as [display, romanized] pairs so emails and usernames match the name
+const KR_LAST_NAMES = [['김', 'kim'], ['이', 'lee'], ['박', 'park'], ['최', 'choi'], ['정', 'jung'], ['강', 'kang'], ['조', 'cho'], ['윤', 'yoon']] as const;
+const KR_FIRST_NAMES = [['민준', 'minjun'], ['서연', 'seoyeon'], ['도윤', 'doyoon'], ['하은', 'haeun'], ['지호', 'jiho'], ['수빈', 'subin'], ['현우', 'hyunwoo'], ['지우', 'jiwoo']] as const;
+const EN_LAST_NAMES = ['Smith', 'Johnson', 'Brown', 'Taylor', 'Miller', 'Wilson', 'Clark', 'Walker'];
+const EN_FIRST_NAMES = ['James', 'Emma', 'Liam', 'Olivia', 'Noah', 'Ava', 'Ethan', 'Sophia'];
+
+const DATA: Record<GeneratorLanguage, {
+  cities: string[];
+  streets: string[];
+  districts: string[];
+  country: string;
+  companies: string[];
+  products: string[];
+  titles: string[];
+  sentences: string[];
+  words: string[];
+}> = {
+  kr: {
+    cities: ['서울특별시', '부산광역시', '인천광역시', '대구광역시', '대전광역시', '광주광역시'],
+    districts: ['강남구', '서초구', '마포구', '송파구', '해운대구', '중구'],
+    streets: ['테헤란로', '세종대로', '올림픽로', '판교역로', '중앙대로', '한강대로'],
+    country: '대한민국',
+    companies: ['(주)한빛소프트', '새솔상사', '푸른테크', '다온물산', '미래유통', '(주)온누리식품'],
+    products: ['무선 블루투스 이어폰', '유기농 녹차 티백', '스테인리스 텀블러', '면 100% 라운드 티셔츠', '가죽 카드지갑', '천연 라벤더 핸드크림'],
+    titles: ['신상품 출시 안내', '정기 점검 공지', '월간 판매 보고서', '고객 문의 답변', '여름 시즌 할인 행사', '배송 일정 변경 안내'],
+    sentences: [
+      '고품질 소재로 제작되어 오래 사용할 수 있습니다.',
+      '일상생활에서 편리하게 사용할 수 있는 제품입니다.',
+      '빠른 배송과 친절한 상담을 약속드립니다.',
+      '자세한 내용은 고객센터로 문의해 주세요.',
+      '테스트를 위해 생성된 설명 문구입니다.',
+    ],
+    words: ['샘플', '테스트', '기본', '일반', '신규', '표준'],
+  },
+  en: {
+    cities: ['Springfield', 'Portland', 'Austin', 'Denver', 'Madison', 'Seattle'],
+    districts: ['Suite 100', 'Suite 210', 'Apt 4B', 'Unit 12', 'Floor 3', 'Apt 7'],
+    streets: ['Main St', 'Oak Ave', 'Maple Dr', 'Pine St', 'Cedar Ln', 'Elm St'],
+    country: 'United States',
+    companies: ['Acme Corp', 'Northwind Traders', 'Blue Harbor Inc', 'Summit Labs', 'Greenfield Co', 'Brightline Foods'],
+    products: ['Wireless Earbuds', 'Organic Green Tea', 'Stainless Tumbler', 'Cotton Crew T-Shirt', 'Leather Card Wallet', 'Lavender Hand Cream'],
+    titles: ['New Product Launch', 'Scheduled Maintenance Notice', 'Monthly Sales Report', 'Customer Inquiry Follow-up', 'Summer Sale Event', 'Delivery Schedule Update'],
+    sentences: [
+      'Made from high-quality materials built to last.',
+      'A practical product for everyday use.',
+      'We promise fast delivery and friendly support.',
+      'Please contact customer service for details.',
+      'This description was generated for testing.',
+    ],
+    words: ['Sample', 'Test', 'Basic', 'General', 'New', 'Standard'],
+  },
+};
+
+// Options that are placeholders rather than real choices
+const PLACEHOLDER_OPTION_PATTERN = /^(select|choose|선택|--|-)/i;
+
+// Semantic types the generator fills as well as a model would (hybrid fill)
+// Titles, descriptions and product names depend on the domain and are left to the AI
+const WELL_KNOWN_TYPES: SemanticType[] = [
+  'email', 'password', 'business-number', 'postcode', 'phone', 'url', 'username',
+  'address-detail', 'address', 'city', 'country', 'birthdate',
+  'first-name', 'last-name', 'name', 'price', 'quantity',
+];
+
+// Minimum classifier confidence for hybrid fill
+const WELL_KNOWN_CONFIDENCE = 0.8;
+
+// Weights of the Korean business registration number checksum
+const BUSINESS_NUMBER_WEIGHTS = [1, 3, 7, 1, 3, 7, 1, 3, 5];
+
+/**
+ * Generate values for every fillable field
+ */
+export function generateFormValues(fields: DetectedField[], options: GeneratorOptions): AIFillResult {
+  const values: AIFillResult = {};
+
+  for (const field of fields) {
+    const value = generateFieldValue(field, options);
+    if (value !== undefined) {
+      values[field.id] = value;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Whether the generator can fill a field on its own in hybrid mode
+ * (confidently classified well-known fields and plain dates; never selects or rich text)
+ */
+export function canGenerateLocally(field: DetectedField): boolean {
+  if (field.isDisabled || field.fillMethod !== 'direct') return false;
+  if (field.type === 'date') return true;
+  if (!['text', 'number', 'textarea'].includes(field.type)) return false;
+
+  return (
+    field.semanticType !== undefined &&
+    WELL_KNOWN_TYPES.includes(field.semanticType) &&
+    (field.semanticConfidence ?? 0) >= WELL_KNOWN_CONFIDENCE
+  );
+}
+
+/**
+ * Generate a value for one field, or undefined when the field should be skipped
+ * A rejected value changes the seed so a repair request gets a different value
+ */
+export function generateFieldValue(field: DetectedField, options: GeneratorOptions): AIFillValue | undefined {
+  if (field.isDisabled || field.fillMethod !== 'direct') return undefined;
+
+  const random = createRandom(`${options.seed}|${field.id}|${field.rejection?.value ?? ''}`);
+  const data = DATA[options.language];
+
+  if (field.multiple) {
+    return generateList(field, random, data.words);
+  }
+
+  switch (field.type) {
+    case 'select':
+    case 'radio': {
+      const choices = getChoices(field);
+      return choices.length > 0 ? random.pick(choices) : undefined;
+    }
+
+    case 'checkbox': {
+      const choices = getChoices(field);
+      if (choices.length === 0) return random.next() < 0.5 ? 'true' : 'false';
+      const count = random.int(1, Math.min(2, choices.length));
+      const start = random.int(0, choices.length - 1);
+      return Array.from({ length: count }, (_, i) => choices[(start + i) % choices.length]).join(', ');
+    }
+
+    case 'switch':
+      return random.next() < 0.5 ? 'true' : 'false';
+
+    case 'number':
+      return String(generateNumber(field, random));
+
+    case 'date':
+      return generateDate(field, random);
+
+    case 'richtext':
+      return `<p>${random.pick(data.sentences)}</p><p>${random.pick(data.sentences)}</p>`;
+
+    case 'file':
+      return undefined;
+
+    default:
+      return fitLength(generateText(field, options.language, random), field, options.language);
+  }
+}
+
+/**
+ * Values for a multi-value field: distinct options for selects, words as tags otherwise
+ * Between minItems (at least one) and maxItems, two by default
+ */
+function generateList(field: DetectedField, random: Random, words: string[]): string[] | undefined {
+  const pool = field.type === 'select' ? getChoices(field) : words;
+  if (pool.length === 0) return undefined;
+
+  const { minItems = 1, maxItems = pool.length } = field.constraints || {};
+  const count = Math.min(pool.length, maxItems, Math.max(minItems, random.int(1, 2)));
+  const start = random.int(0, pool.length - 1);
+  return Array.from({ length: count }, (_, i) => pool[(start + i) % pool.length]);
+}
+
+/**
+ * Options a value can be chosen from (placeholder entries removed)
+ */
+function getChoices(field: DetectedField): string[] {
+  return (field.options || []).filter((option) => option.trim() && !PLACEHOLDER_OPTION_PATTERN.test(option.trim()));
+}
+
+/**
+ * Text value based on the field's semantic type (or native input type)
+ */
+function generateText(field: DetectedField, language: GeneratorLanguage, random: Random): string {
+  const data = DATA[language];
+  const person = createPerson(language, random);
+  const digits = (count: number) => Array.from({ length: count }, () => random.int(0, 9)).join('');
+
+  switch (getSemanticType(field)) {
+    case 'email':
+      return `${person.romanized}${random.int(1, 99)}@example.com`;
+    case 'password':
+      return `Test!${person.romanized.slice(0, 4)}${digits(4)}`;
+    case 'business-number':
+      return generateBusinessNumber(random);
+    case 'postcode':
+      return digits(5);
+    case 'phone':
+      return language === 'kr' ? `010-${digits(4)}-${digits(4)}` : `555-01${digits(2)}`;
+    case 'url':
+      return `https://www.example.com/${person.romanized}`;
+    case 'username':
+      return `${person.romanized}${digits(3)}`;
+    case 'address-detail':
+      return language === 'kr' ? `${random.int(101, 110)}동 ${random.int(1, 20)}0${random.int(1, 4)}호` : random.pick(data.districts);
+    case 'address':
+      return language === 'kr'
+        ? `${random.pick(data.cities)} ${random.pick(data.districts)} ${random.pick(data.streets)} ${random.int(1, 300)}`
+        : `${random.int(100, 9999)} ${random.pick(data.streets)}, ${random.pick(data.cities)}`;
+    case 'city':
+      return random.pick(data.cities);
+    case 'country':
+      return data.country;
+    case 'birthdate':
+      return `${random.int(1970, 2000)}-${pad(random.int(1, 12))}-${pad(random.int(1, 28))}`;
+    case 'company':
+      return random.pick(data.companies);
+    case 'product-name':
+      return random.pick(data.products);
+    case 'first-name':
+      return person.first;
+    case 'last-name':
+      return person.last;
+    case 'name':
+      return person.full;
+    case 'price':
+      return String(generateNumber(field, random));
+    case 'quantity':
+      return String(random.int(1, 100));
+    case 'title':
+      return random.pick(data.titles);
+    case 'description':
+      return `${random.pick(data.sentences)} ${random.pick(data.sentences)}`;
+    default:
+      return field.type === 'textarea'
+        ? `${random.pick(data.sentences)} ${random.pick(data.sentences)}`
+        : `${random.pick(data.words)} ${random.int(1, 999)}`;
+  }
+}
+
+/**
+ * Semantic type, falling back to the native input type when unclassified
+ */
+function getSemanticType(field: DetectedField): SemanticType | undefined {
+  if (field.semanticType) return field.semanticType;
+
+  switch (field.constraints?.inputType) {
+    case 'email':
+      return 'email';
+    case 'tel':
+      return 'phone';
+    case 'url':
+      return 'url';
+    case 'password':
+      return 'password';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Number within min/max, snapped to step
+ */
+function generateNumber(field: DetectedField, random: Random): number {
+  const constraints = field.constraints || {};
+  const isPrice = field.semanticType === 'price';
+
+  const min = typeof constraints.min === 'number' ? constraints.min : isPrice ? 1000 : 1;
+  const max = typeof constraints.max === 'number' ? constraints.max : Math.max(min, isPrice ? 100000 : 100);
+  const step = constraints.step || (isPrice && min % 100 === 0 ? 100 : 1);
+
+  const steps = Math.floor((max - min) / step);
+  const decimals = (String(step).split('.')[1] || '').length;
+  return Number((min + random.int(0, Math.max(0, steps)) * step).toFixed(decimals));
+}
+
+/**
+ * Date value in the canonical format of the field's kind (date within min/max, within the coming month by default)
+ * Times fall in office hours on the half hour; ranges span one to two weeks
+ */
+function generateDate(field: DetectedField, random: Random): string {
+  const time = `${pad(random.int(9, 17))}:${random.pick(['00', '30'])}`;
+  const date = generateIsoDate(field, random);
+
+  switch (field.dateKind) {
+    case 'time':
+      return time;
+    case 'datetime':
+      return `${date}T${time}`;
+    case 'month':
+      return date.slice(0, 7);
+    case 'year':
+      return date.slice(0, 4);
+    case 'date-range': {
+      const end = new Date(Date.parse(date) + random.int(7, 14) * 24 * 60 * 60 * 1000);
+      return `${date}${DATE_RANGE_SEPARATOR}${end.toISOString().slice(0, 10)}`;
+    }
+    default:
+      return date;
+  }
+}
+
+/**
+ * ISO date (YYYY-MM-DD) within min/max, within the coming month by default
+ */
+function generateIsoDate(field: DetectedField, random: Random): string {
+  const { min, max } = field.constraints || {};
+  const isIso = (v: unknown): v is string => typeof v === 'string' && /^\d{4}-\d{2}-\d{2}/.test(v);
+
+  if (field.semanticType === 'birthdate' && !isIso(min) && !isIso(max)) {
+    return `${random.int(1970, 2000)}-${pad(random.int(1, 12))}-${pad(random.int(1, 28))}`;
+  }
+
+  const day = 24 * 60 * 60 * 1000;
+  const start = isIso(min) ? Date.parse(min.slice(0, 10)) : isIso(max) ? Date.parse(max.slice(0, 10)) - 30 * day : Date.now();
+  const end = isIso(max) ? Date.parse(max.slice(0, 10)) : start + 30 * day;
+  const date = new Date(start + random.int(0, Math.max(0, Math.floor((end - start) / day))) * day);
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Korean business registration number (XXX-XX-XXXXX) with a valid check digit
+ */
+function generateBusinessNumber(random: Random): string {
+  const digits = Array.from({ length: 9 }, () => random.int(0, 9));
+  digits[0] = random.int(1, 9);
+
+  let sum = digits.reduce((total, digit, i) => total + digit * BUSINESS_NUMBER_WEIGHTS[i], 0);
+  sum += Math.floor((digits[8] * 5) / 10);
+  digits.push((10 - (sum % 10)) % 10);
+
+  const value = digits.join('');
+  return `${value.slice(0, 3)}-${value.slice(3, 5)}-${value.slice(5)}`;
+}
+
+/**
+ * Trim or pad text to the field's maxLength/minLength
+ */
+function fitLength(text: string, field: DetectedField, language: GeneratorLanguage): string {
+  const { minLength, maxLength } = field.constraints || {};
+  let value = text;
+
+  if (minLength !== undefined) {
+    const filler = DATA[language].sentences.join(' ');
+    while (value.length < minLength) value = `${value} ${filler}`;
+  }
+  if (maxLength !== undefined && value.length > maxLength) {
+    value = value.slice(0, maxLength).trim();
+  }
+
+  return value;
+}
+
+/**
+ * Random person in the target language
+ */
+function createPerson(language: GeneratorLanguage, random: Random) {
+  if (language === 'kr') {
+    const [last, lastRoman] = random.pick(KR_LAST_NAMES);
+    const [first, firstRoman] = random.pick(KR_FIRST_NAMES);
+    return { first, last, full: `${last}${first}`, romanized: `${firstRoman}.${lastRoman}` };
+  }
+
+  const first = random.pick(EN_FIRST_NAMES);
+  const last = random.pick(EN_LAST_NAMES);
+  return { first, last, full: `${first} ${last}`, romanized: `${first}.${last}`.toLowerCase() };
+}
+
+/**
+ * Seeded pseudo-random source (FNV-1a hash of the seed, mulberry32 generator)
+ */
+function createRandom(seed: string): Random {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193);
+  }
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    next,
+    int: (min, max) => min + Math.floor(next() * (max - min + 1)),
+    pick: (items) => items[Math.floor(next() * items.length)],
+  };
+}
+
+/**
+ * Zero-pad a month or day
+ */
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,412 @@
+/**
+ * Date format - parses date/time values in any common notation and writes them in a field's format
+ * Formats use dayjs-style tokens: YYYY YY MMMM MMM MM M DD D HH H hh h mm ss A (AM/PM) 오전 (오전/오후)
+ */
+import type { DateKind } from './types';
+
+export interface DateParts {
+  year?: number;
+  month?: number; // 1-12
+  day?: number;
+  hour?: number; // 0-23
+  minute?: number;
+  second?: number;
+}
+
+// Separator the AI and the filler use between the start and end of a range
+export const DATE_RANGE_SEPARATOR = ' ~ ';
+
+// Machine formats values are exchanged in (native inputs accept these as-is)
+export const CANONICAL_DATE_FORMATS: Record<Exclude<DateKind, 'date-range'>, string> = {
+  date: 'YYYY-MM-DD',
+  datetime: 'YYYY-MM-DDTHH:mm',
+  time: 'HH:mm',
+  month: 'YYYY-MM',
+  year: 'YYYY',
+};
+
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+];
+
+const TOKEN_PATTERN = /YYYY|YY|MMMM|MMM|MM|M|DD|D|HH|H|hh|h|mm|ss|A|오전/g;
+const TIME_PATTERN = /(오전|오후|AM|PM)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM|오전|오후)?/i;
+const RANGE_PATTERN = /\s*(?:~|–|—|\s-\s|\sto\s)\s*/;
+
+// What one pass over a date string found, in order of appearance
+interface DateAnalysis {
+  parts: DateParts;
+  order: ('Y' | 'M' | 'D')[]; // Order of the numeric date components
+  hasMeridiem: boolean;
+}
+
+/**
+ * Parse a date, datetime, time, month or year value
+ * Dates without a 4-digit year first are read in the locale's order (24.01.05 is 2024-01-05 in ko-KR)
+ */
+export function parseDateValue(value: string, locale?: string): DateParts | null {
+  return analyzeDate(value, locale)?.parts ?? null;
+}
+
+/**
+ * Split a range value ("2024-01-01 ~ 2024-01-31") into start and end
+ */
+export function splitDateRange(value: string): { start: string; end: string; separator: string } | null {
+  const match = value.match(RANGE_PATTERN);
+  if (!match || match.index === undefined) return null;
+
+  const start = value.slice(0, match.index).trim();
+  const end = value.slice(match.index + match[0].length).trim();
+  if (!/\d/.test(start) || !/\d/.test(end)) return null;
+  return { start, end, separator: match[0] };
+}
+
+/**
+ * Join a structured AI date value into one string the filler understands
+ * ({start, end} → "start ~ end", {date, time} → "dateTtime"); undefined for anything else
+ */
+export function joinStructuredDate(value: unknown): string | undefined {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+  const { start, end, date, time } = value as Record<string, unknown>;
+  const isText = (v: unknown): v is string | number => typeof v === 'string' || typeof v === 'number';
+
+  // Range ends may themselves be {date, time}
+  if ((isText(start) || typeof start === 'object') && (isText(end) || typeof end === 'object')) {
+    const join = (v: unknown) => joinStructuredDate(v) ?? String(v);
+    return `${join(start)}${DATE_RANGE_SEPARATOR}${join(end)}`;
+  }
+  if (isText(date) && isText(time)) return `${date}T${time}`;
+  if (isText(date)) return String(date);
+  return undefined;
+}
+
+/**
+ * Write date parts in a token format (missing parts default to the 1st / 00:00)
+ */
+export function formatDateValue(parts: DateParts, format: string): string {
+  const year = parts.year ?? new Date().getFullYear();
+  const month = parts.month ?? 1;
+  const day = parts.day ?? 1;
+  const hour = parts.hour ?? 0;
+  const minute = parts.minute ?? 0;
+  const second = parts.second ?? 0;
+  const hour12 = hour % 12 === 0 ? 12 : hour % 12;
+  const monthName = MONTH_NAMES[month - 1] ?? '';
+
+  return format.replace(TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case 'YYYY': return String(year);
+      case 'YY': return pad(year % 100);
+      case 'MMMM': return monthName.charAt(0).toUpperCase() + monthName.slice(1);
+      case 'MMM': return monthName.charAt(0).toUpperCase() + monthName.slice(1, 3);
+      case 'MM': return pad(month);
+      case 'M': return String(month);
+      case 'DD': return pad(day);
+      case 'D': return String(day);
+      case 'HH': return pad(hour);
+      case 'H': return String(hour);
+      case 'hh': return pad(hour12);
+      case 'h': return String(hour12);
+      case 'mm': return pad(minute);
+      case 'ss': return pad(second);
+      case 'A': return hour < 12 ? 'AM' : 'PM';
+      case '오전': return hour < 12 ? '오전' : '오후';
+      default: return token;
+    }
+  });
+}
+
+/**
+ * Convert any supported value to the canonical format of a date kind
+ * Returns null when the value can't be read as a date
+ */
+export function toCanonicalDate(value: string, kind: DateKind = 'date', locale?: string): string | null {
+  if (kind === 'date-range') {
+    const range = splitDateRange(value);
+    const start = range && parseDateValue(range.start, locale);
+    const end = range && parseDateValue(range.end, locale);
+    if (!start || !end) return null;
+    // Ends are put in order, so the picker is always clicked start first
+    const format = CANONICAL_DATE_FORMATS.date;
+    const [first, last] = [formatDateValue(start, format), formatDateValue(end, format)].sort();
+    return `${first}${DATE_RANGE_SEPARATOR}${last}`;
+  }
+
+  const parts = parseDateValue(value, locale);
+  return parts ? formatDateValue(parts, CANONICAL_DATE_FORMATS[kind]) : null;
+}
+
+/**
+ * Format a canonical value (or range) in a field's format
+ * A range format is written as "<start format><separator><end format>"
+ */
+export function formatForField(value: string, format: string, locale?: string): string | null {
+  const valueRange = splitDateRange(value);
+
+  if (valueRange) {
+    const start = parseDateValue(valueRange.start, locale);
+    const end = parseDateValue(valueRange.end, locale);
+    if (!start || !end) return null;
+    const formatRange = splitFormatRange(format);
+    const single = formatRange?.start ?? format;
+    const separator = formatRange?.separator ?? DATE_RANGE_SEPARATOR;
+    return `${formatDateValue(start, single)}${separator}${formatDateValue(end, single)}`;
+  }
+
+  const parts = parseDateValue(value, locale);
+  return parts ? formatDateValue(parts, splitFormatRange(format)?.start ?? format) : null;
+}
+
+/**
+ * Work out the token format of a placeholder or an example value
+ * ("yyyy.mm.dd" → "YYYY.MM.DD", "2024년 01월 05일" → "YYYY년 MM월 DD일", "January 5, 2024" → "MMMM D, YYYY")
+ */
+export function inferDateFormat(sample: string, locale?: string): string | undefined {
+  const text = sample.trim();
+  if (!text) return undefined;
+
+  // Token placeholders (YYYY-MM-DD, yyyy/mm/dd, DD.MM.YYYY HH:mm)
+  const tokenPattern = extractTokenPattern(text);
+  if (tokenPattern) return tokenPattern;
+
+  // Range example: infer the start and keep the separator
+  const range = splitDateRange(text);
+  if (range) {
+    const single = inferDateFormat(range.start, locale);
+    return single ? `${single}${range.separator}${single}` : undefined;
+  }
+
+  const analysis = analyzeDate(text, locale);
+  if (!analysis) return undefined;
+
+  const { order, hasMeridiem } = analysis;
+  const time = text.match(TIME_PATTERN);
+  const timeStart = time?.index ?? -1;
+  const timeEnd = time ? timeStart + time[0].length : -1;
+  let dateIndex = 0;
+
+  // Replace each number or word with its token, in order of appearance
+  return text.replace(/\d+|[A-Za-z]+|오전|오후/g, (token, offset: number) => {
+    const inTime = timeStart >= 0 && offset >= timeStart && offset < timeEnd;
+
+    if (inTime) {
+      if (/^(AM|PM)$/i.test(token)) return 'A';
+      if (token === '오전' || token === '오후') return '오전';
+      const before = text.slice(timeStart, offset);
+      const colons = (before.match(/:/g) || []).length;
+      if (colons === 0) return hasMeridiem ? (token.length === 2 ? 'hh' : 'h') : token.length === 2 ? 'HH' : 'H';
+      return colons === 1 ? 'mm' : 'ss';
+    }
+
+    if (/^[A-Za-z]+$/.test(token)) {
+      const monthIndex = findMonthName(token);
+      if (monthIndex < 0) return token;
+      return token.length <= 3 ? 'MMM' : 'MMMM';
+    }
+
+    const component = order[dateIndex++];
+    switch (component) {
+      case 'Y': return token.length === 4 ? 'YYYY' : 'YY';
+      case 'M': return token.length === 2 ? 'MM' : 'M';
+      case 'D': return token.length === 2 ? 'DD' : 'D';
+      default: return token;
+    }
+  });
+}
+
+/**
+ * Format a locale writes a date kind in ("ko-KR" date → "YYYY. MM. DD.", "en-US" → "MM/DD/YYYY")
+ */
+export function getLocaleDateFormat(locale: string, kind: DateKind = 'date'): string | undefined {
+  const sample = new Date(2024, 10, 25, 14, 30); // Day and month can't be confused
+  const dateOptions: Intl.DateTimeFormatOptions = { year: 'numeric', month: '2-digit', day: '2-digit' };
+  const timeOptions: Intl.DateTimeFormatOptions = { hour: '2-digit', minute: '2-digit' };
+
+  const options: Record<DateKind, Intl.DateTimeFormatOptions> = {
+    date: dateOptions,
+    'date-range': dateOptions,
+    datetime: { ...dateOptions, ...timeOptions },
+    time: timeOptions,
+    month: { year: 'numeric', month: '2-digit' },
+    year: { year: 'numeric' },
+  };
+
+  try {
+    const format = inferDateFormat(new Intl.DateTimeFormat(locale, options[kind]).format(sample), locale);
+    return format && kind === 'date-range' ? `${format}${DATE_RANGE_SEPARATOR}${format}` : format;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Split a range format ("YYYY.MM.DD ~ YYYY.MM.DD") into its single-date format and separator
+ */
+function splitFormatRange(format: string): { start: string; separator: string } | null {
+  const match = format.match(RANGE_PATTERN);
+  if (!match || match.index === undefined) return null;
+
+  const start = format.slice(0, match.index);
+  const end = format.slice(match.index + match[0].length);
+  const hasTokens = (part: string) => /Y|D|H/.test(part);
+  return hasTokens(start) && hasTokens(end) ? { start, separator: match[0] } : null;
+}
+
+/**
+ * The token part of a placeholder like "Select date (yyyy-mm-dd)" or "YYYY년 MM월 DD일", normalized
+ * Undefined when the text has no year or hour token
+ */
+function extractTokenPattern(text: string): string | undefined {
+  const runs = Array.from(text.matchAll(/[A-Za-z]+/g));
+  const isToken = (run: string) => /^(y{2,4}|m{1,4}|d{1,2}|h{1,2}|s{2}|a)$/i.test(run);
+  const tokenRuns = runs.filter((run) => isToken(run[0]));
+  if (!tokenRuns.some((run) => /^(y{2,4}|h{1,2})$/i.test(run[0]))) return undefined;
+
+  // From the first to the last token, plus Korean unit suffixes (년 월 일 시 분 초) and a trailing dot
+  const first = tokenRuns[0].index ?? 0;
+  const lastRun = tokenRuns[tokenRuns.length - 1];
+  let end = (lastRun.index ?? 0) + lastRun[0].length;
+  while (end < text.length && /[년월일시분초.]/.test(text[end])) end++;
+
+  const segment = text.slice(first, end);
+  return segment.replace(/[A-Za-z]+/g, (run, offset: number) => {
+    if (/^y{2,4}$/i.test(run)) return run.length === 2 ? 'YY' : 'YYYY';
+    if (/^d{1,2}$/i.test(run)) return 'D'.repeat(run.length);
+    if (/^h{1,2}$/i.test(run)) return 'H'.repeat(run.length);
+    if (/^s{2}$/i.test(run)) return 'ss';
+    if (/^a$/i.test(run)) return 'A';
+    // "mm" after a colon is minutes, otherwise month
+    if (/^m{1,4}$/i.test(run)) return segment[offset - 1] === ':' ? 'mm' : 'M'.repeat(run.length);
+    return run;
+  });
+}
+
+/**
+ * Find year, month, day and time in a value and remember the order of the date numbers
+ */
+function analyzeDate(value: string, locale?: string): DateAnalysis | null {
+  const text = value.normalize('NFKC').trim();
+  if (!text) return null;
+
+  const parts: DateParts = {};
+
+  // Time of day ("14:30", "2:30 PM", "오후 2:30")
+  const time = text.match(TIME_PATTERN);
+  const meridiem = (time?.[1] || time?.[5] || '').toUpperCase();
+  if (time) {
+    let hour = Number(time[2]);
+    if ((meridiem === 'PM' || meridiem === '오후') && hour < 12) hour += 12;
+    if ((meridiem === 'AM' || meridiem === '오전') && hour === 12) hour = 0;
+    parts.hour = hour;
+    parts.minute = Number(time[3]);
+    if (time[4] !== undefined) parts.second = Number(time[4]);
+  }
+
+  // ISO dates with a "T" separator would otherwise read the time as part of the date
+  const dateText = (time ? text.replace(time[0], ' ') : text).replace(/(\d)T\s*$/, '$1');
+
+  // Month written as a word
+  const words = dateText.match(/[A-Za-z]+/g) || [];
+  const monthWord = words.map(findMonthName).find((index) => index >= 0);
+  if (monthWord !== undefined) parts.month = monthWord + 1;
+
+  const numbers = (dateText.match(/\d+/g) || []).map((n) => ({ text: n, value: Number(n) }));
+  const dotted = /\d\.\s?\d/.test(dateText);
+  const order = assignDateOrder(numbers, parts.month !== undefined, dotted, locale);
+  if (!order) return null;
+
+  order.forEach((component, i) => {
+    const num = numbers[i].value;
+    if (component === 'Y') parts.year = numbers[i].text.length <= 2 ? 2000 + num : num;
+    if (component === 'M') parts.month = num;
+    if (component === 'D') parts.day = num;
+  });
+
+  const hasDate = parts.year !== undefined || parts.month !== undefined || parts.day !== undefined;
+  if (!hasDate && parts.hour === undefined) return null;
+  if (parts.month !== undefined && (parts.month < 1 || parts.month > 12)) return null;
+  if (parts.day !== undefined && (parts.day < 1 || parts.day > 31)) return null;
+  // Day and month must form a real date (31/02 is rejected; Feb 29 needs a leap year when the year is known)
+  if (parts.day !== undefined && parts.month !== undefined && parts.day > daysInMonth(parts.month, parts.year)) {
+    return null;
+  }
+  if (parts.hour !== undefined && (parts.hour > 23 || (parts.minute ?? 0) > 59)) return null;
+
+  return { parts, order, hasMeridiem: meridiem !== '' };
+}
+
+/**
+ * Number of days in a month (a leap year when the year is unknown)
+ */
+function daysInMonth(month: number, year = 2000): number {
+  return new Date(year, month, 0).getDate();
+}
+
+/**
+ * Decide which number is the year, month and day
+ * Year first (ISO, Korean) is read Y-M-D, as are two-digit years in year-first locales (24.01.05 in ko-KR);
+ * otherwise an impossible month decides, then dotted dates are day-first (05.01.2024) and the rest follow the locale order
+ */
+function assignDateOrder(
+  numbers: { text: string; value: number }[],
+  hasMonthWord: boolean,
+  dotted: boolean,
+  locale?: string
+): ('Y' | 'M' | 'D')[] | null {
+  const yearIndex = numbers.findIndex((n) => n.text.length === 4);
+
+  if (hasMonthWord) {
+    // "January 5, 2024" / "5 January 2024" / "January 2024"
+    return numbers.map((n, i) => (i === yearIndex || (yearIndex < 0 && n.value > 31) ? 'Y' : 'D'));
+  }
+
+  switch (numbers.length) {
+    case 0:
+      return [];
+    case 1:
+      return yearIndex === 0 ? ['Y'] : null;
+    case 2:
+      // "2024-01" or "01/2024"
+      if (yearIndex === 0) return ['Y', 'M'];
+      if (yearIndex === 1) return ['M', 'Y'];
+      return null;
+  }
+
+  if (yearIndex === 0) return ['Y', 'M', 'D'];
+
+  const localeOrder = getLocaleOrder(locale);
+  if (yearIndex < 0 && localeOrder === 'YMD') return ['Y', 'M', 'D'];
+
+  const [first, second] = numbers;
+  if (first.value > 12) return ['D', 'M', 'Y'];
+  if (second.value > 12) return ['M', 'D', 'Y'];
+  return dotted || localeOrder === 'DMY' ? ['D', 'M', 'Y'] : ['M', 'D', 'Y'];
+}
+
+/**
+ * Whether a locale writes the year, the day or the month first (MM/DD/YYYY when unknown, as in en-US)
+ */
+function getLocaleOrder(locale?: string): 'YMD' | 'DMY' | 'MDY' {
+  if (!locale) return 'MDY';
+  try {
+    const parts = new Intl.DateTimeFormat(locale).formatToParts(new Date(2024, 10, 25));
+    const yearIndex = parts.findIndex((part) => part.type === 'year');
+    const dayIndex = parts.findIndex((part) => part.type === 'day');
+    const monthIndex = parts.findIndex((part) => part.type === 'month');
+    if (yearIndex < monthIndex && yearIndex < dayIndex) return 'YMD';
+    return dayIndex < monthIndex ? 'DMY' : 'MDY';
+  } catch {
+    return 'MDY';
+  }
+}
+
+function findMonthName(word: string): number {
+  const lower = word.toLowerCase();
+  if (lower.length < 3) return -1;
+  return MONTH_NAMES.findIndex((name) => name.startsWith(lower) && (lower.length === 3 || lower === name));
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
@@ -0,0 +1,39 @@
+/**
+ * Fill policy - decides which fields an auto-fill may touch
+ * Applied when building the prompt (so no tokens are spent on kept fields) and again when filling
+ */
+import type { DetectedField, OverwritePolicy } from './types';
+
+/**
+ * Whether a field holds no user-entered value
+ */
+export function isFieldEmpty(field: DetectedField): boolean {
+  const value = (field.currentValue ?? '').trim();
+
+  // Toggles report their checked state
+  if ((field.type === 'checkbox' && !field.options?.length) || field.type === 'switch') {
+    return value === '' || value === 'false';
+  }
+
+  // Empty rich text editors still contain markup like <p><br></p>
+  if (field.type === 'richtext') {
+    return value.replace(/<[^>]*>/g, '').replace(/&nbsp;/g, ' ').trim() === '';
+  }
+
+  return value === '';
+}
+
+/**
+ * Whether the overwrite policy lets an auto-fill write to a field
+ */
+export function isFieldAllowedByPolicy(field: DetectedField, policy: OverwritePolicy = 'always'): boolean {
+  switch (policy) {
+    case 'empty-only':
+      return isFieldEmpty(field);
+    case 'required-only':
+      return field.required;
+    case 'always':
+    default:
+      return true;
+  }
+}
@@ -0,0 +1,44 @@
+import type { DetectedField } from './types';
+
+// Frame id of the top-level document
+export const TOP_FRAME_ID = 0;
+
+// Separates the frame prefix from the frame-local field id
+const FRAME_ID_SEPARATOR = '::';
+
+/**
+ * Make a field id unique across frames (top frame ids are left untouched)
+ */
+export function scopeFieldId(fieldId: string, frameId: number): string {
+  return frameId === TOP_FRAME_ID ? fieldId : `frame${frameId}${FRAME_ID_SEPARATOR}${fieldId}`;
+}
+
+/**
+ * Strip the frame prefix added by scopeFieldId
+ */
+export function unscopeFieldId(fieldId: string): string {
+  const match = fieldId.match(/^frame\d+::(.+)$/);
+  return match ? match[1] : fieldId;
+}
+
+/**
+ * Frame a scoped field id belongs to
+ */
+export function getFieldFrameId(fieldId: string): number {
+  const match = fieldId.match(/^frame(\d+)::/);
+  return match ? Number(match[1]) : TOP_FRAME_ID;
+}
+
+/**
+ * Tag a field detected in a frame so it can be merged with other frames
+ */
+export function scopeFieldToFrame(field: DetectedField, frameId: number): DetectedField {
+  return { ...field, id: scopeFieldId(field.id, frameId), frameId };
+}
+
+/**
+ * Restore the id a frame's own content script knows the field by
+ */
+export function toFrameLocalField(field: DetectedField): DetectedField {
+  return { ...field, id: unscopeFieldId(field.id) };
+}
@@ -0,0 +1,32 @@
+/**
+ * Multi-value helpers - moves values between the list form of multi-value fields and plain text
+ */
+import type { AIFillValue } from './types';
+
+/**
+ * Values of a multi-value field ("a, b" and '["a","b"]' strings are split as well)
+ */
+export function toValueList(value: AIFillValue): string[] {
+  const items = Array.isArray(value) ? value : splitValueText(value);
+  return [...new Set(items.map((item) => String(item).trim()).filter(Boolean))];
+}
+
+/**
+ * Single-value text of any value (lists are comma-joined, as checkbox groups expect)
+ */
+export function toValueText(value: AIFillValue): string {
+  return Array.isArray(value) ? value.join(', ') : value;
+}
+
+function splitValueText(text: string): string[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(trimmed);
+      if (Array.isArray(parsed)) return parsed.map(String);
+    } catch {
+      // Not JSON, split on separators below
+    }
+  }
+  return trimmed.split(/\s*[,\n]\s*/);
+}
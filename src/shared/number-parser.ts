@@ -0,0 +1,154 @@
+/**
+ * Number parser - reads numbers written with locale separators, currency symbols, units and percent signs
+ * ("15,000" → 15000, "₩89,000" → 89000, "1.234,5" → 1234.5, "1.5만원" → 15000, "12%" → 12)
+ */
+import type { FieldConstraints } from './types';
+
+// The part of FieldConstraints that applies to numbers
+type NumberConstraints = Pick<FieldConstraints, 'min' | 'max' | 'step'>;
+
+// Plain JS notation the validator writes numbers in ("1234.5", "-0.125")
+const CANONICAL_NUMBER = /^-?\d+(\.\d+)?$/;
+
+// Korean magnitude words (AI values like "3만원")
+const KOREAN_MAGNITUDES: Record<string, number> = { 천: 1e3, 만: 1e4, 억: 1e8 };
+
+/**
+ * Parse a number the way a person would read it, or null when the text holds no number
+ * locale (e.g. "de-DE") decides ambiguous cases like "1.234" and "1,234"
+ */
+export function parseLocaleNumber(value: string, locale?: string): number | null {
+  let text = value.normalize('NFKC').trim();
+  if (!/\d/.test(text)) return null;
+
+  // Accounting negatives "(1,000)" and the Unicode minus sign
+  const negative = /^\(.*\)$/.test(text) || /^[-−]/.test(text.replace(/^[^\d\-−]*/, ''));
+
+  // Korean magnitude suffix ("1.5만", "3억 5천" is read as its first part)
+  let multiplier = 1;
+  const magnitude = text.match(/(\d)\s*([천만억])/);
+  if (magnitude) {
+    multiplier = KOREAN_MAGNITUDES[magnitude[2]];
+    text = text.slice(0, text.indexOf(magnitude[2]));
+  }
+
+  // Keep digits and separators of the first number in the text (drops ₩, $, 원, kg, %, spaces)
+  const match = text.replace(/[\s']/g, '').match(/[.,]?\d[\d.,]*/);
+  if (!match) return null;
+
+  const number = Number(normalizeSeparators(match[0].replace(/[.,]$/, ''), getDecimalSeparator(locale)));
+  if (!Number.isFinite(number)) return null;
+
+  return (negative ? -number : number) * multiplier;
+}
+
+/**
+ * Parse a value for a number field: percentages become fractions when the field tops out at 1,
+ * then the result is snapped to the field's step and clamped to min/max
+ * Returns null when the value holds no number (the field must fail, not be set to 0)
+ */
+export function parseFieldNumber(
+  value: string,
+  constraints: NumberConstraints = {},
+  locale?: string
+): number | null {
+  const parsed = parseLocaleNumber(value, locale);
+  if (parsed === null) return null;
+
+  const isFraction = value.includes('%') && typeof constraints.max === 'number' && constraints.max <= 1;
+  return applyNumberConstraints(isFraction ? parsed / 100 : parsed, constraints);
+}
+
+/**
+ * Parse a value the validator already wrote in canonical form, reading anything else for the page locale
+ * "0.125" stays 0.125 on a de-DE page instead of being read a second time as 125
+ */
+export function parseValidatedNumber(
+  value: string,
+  constraints: NumberConstraints = {},
+  locale?: string
+): number | null {
+  const text = value.trim();
+  if (CANONICAL_NUMBER.test(text)) return applyNumberConstraints(Number(text), constraints);
+  return parseFieldNumber(value, constraints, locale);
+}
+
+/**
+ * Round a number to the step grid (offset by min) and clamp it to min/max
+ */
+function applyNumberConstraints(
+  num: number,
+  constraints: NumberConstraints
+): number {
+  const min = typeof constraints.min === 'number' ? constraints.min : undefined;
+  const max = typeof constraints.max === 'number' ? constraints.max : undefined;
+  let result = num;
+
+  if (constraints.step) {
+    const base = min ?? 0;
+    result = base + Math.round((result - base) / constraints.step) * constraints.step;
+  }
+  if (min !== undefined && result < min) result = min;
+  if (max !== undefined && result > max) result = max;
+
+  // Decimal scale of the step (0.01 → 2 places), which also removes float noise
+  const decimals = constraints.step ? countDecimals(constraints.step) : 10;
+  return Number(result.toFixed(decimals));
+}
+
+/**
+ * Decimal places of a number (0.01 → 2, 1e-7 → 7), read arithmetically since String() switches to exponents
+ */
+function countDecimals(num: number): number {
+  let decimals = 0;
+  while (decimals < 20) {
+    const scaled = Math.abs(num) * 10 ** decimals;
+    if (Math.abs(scaled - Math.round(scaled)) < 1e-9 * Math.max(1, scaled)) break;
+    decimals++;
+  }
+  return decimals;
+}
+
+/**
+ * Turn "1.234,5" / "1,234.5" / "1 234" into a plain "1234.5"
+ */
+function normalizeSeparators(text: string, decimalSeparator: '.' | ','): string {
+  const lastComma = text.lastIndexOf(',');
+  const lastDot = text.lastIndexOf('.');
+
+  // Both used: whichever comes last separates the decimals
+  if (lastComma >= 0 && lastDot >= 0) {
+    const decimal = lastComma > lastDot ? ',' : '.';
+    const thousands = decimal === ',' ? '.' : ',';
+    return text.split(thousands).join('').replace(decimal, '.');
+  }
+
+  const separator = lastComma >= 0 ? ',' : lastDot >= 0 ? '.' : null;
+  if (!separator) return text;
+
+  const parts = text.split(separator);
+  // Repeated separator ("1,234,567") can only group thousands
+  if (parts.length > 2) return parts.join('');
+
+  // Thousands never follow a lone zero ("0.125") or group more than three digits ("1.2345"),
+  // so those are decimals in every locale (models write JS notation even on de-DE pages)
+  if (/^0?$/.test(parts[0]) || parts[1].length > 3) return `${parts[0] || '0'}.${parts[1]}`;
+
+  // A single separator followed by exactly three digits is a thousands separator,
+  // unless the locale writes decimals with it ("1,234" in de-DE is 1.234)
+  const isThousands = parts[1].length === 3 && separator !== decimalSeparator;
+  return isThousands ? parts.join('') : `${parts[0]}.${parts[1]}`;
+}
+
+/**
+ * Decimal separator of a locale ('.' when unknown)
+ */
+function getDecimalSeparator(locale?: string): '.' | ',' {
+  if (!locale) return '.';
+  try {
+    const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find((part) => part.type === 'decimal');
+    return decimal?.value === ',' ? ',' : '.';
+  } catch {
+    return '.';
+  }
+}
@@ -1,5 +1,5 @@
 import type { ExtensionSettings, AIProvider, ProviderProfile } from './types';
-import { DEFAULT_SETTINGS, AVAILABLE_MODELS, DEFAULT_PROVIDER_PROFILES, DEFAULT_OPENROUTER_MODEL, DEFAULT_GEMINI_MODEL } from './constants';
+import { DEFAULT_SETTINGS, AVAILABLE_MODELS, DEFAULT_PROVIDER_PROFILES } from './constants';
 
 const STORAGE_KEY = 'ai_autofill_settings';
 
@@ -37,6 +37,12 @@ function migrateToProviderFormat(stored: Partial<ExtensionSettings>): ExtensionS
   if (stored.enabled !== undefined) settings.enabled = stored.enabled;
   if (stored.enabledFieldTypes) settings.enabledFieldTypes = stored.enabledFieldTypes;
   if (stored.enableVisionRecheck !== undefined) settings.enableVisionRecheck = stored.enableVisionRecheck;
+  if (stored.hybridFill !== undefined) settings.hybridFill = stored.hybridFill;
+  if (stored.reviewBeforeFill !== undefined) settings.reviewBeforeFill = stored.reviewBeforeFill;
+  if (stored.overwritePolicy) settings.overwritePolicy = stored.overwritePolicy;
+  if (stored.typingMode) settings.typingMode = stored.typingMode;
+  if (stored.typingDelay !== undefined) settings.typingDelay = stored.typingDelay;
+  if (stored.typingModeByDomain) settings.typingModeByDomain = stored.typingModeByDomain;
   if (stored.targetLanguage) settings.targetLanguage = stored.targetLanguage;
   if (stored.debugMode !== undefined) settings.debugMode = stored.debugMode;
   if (stored.customDomains) settings.customDomains = stored.customDomains;
@@ -50,6 +56,7 @@ function migrateToProviderFormat(stored: Partial<ExtensionSettings>): ExtensionS
     settings.providers = {
       openrouter: stored.providers.openrouter || DEFAULT_PROVIDER_PROFILES.openrouter,
       gemini: stored.providers.gemini || DEFAULT_PROVIDER_PROFILES.gemini,
+      local: stored.providers.local || DEFAULT_PROVIDER_PROFILES.local,
     };
   } else {
     // Migrate legacy OpenRouter settings to provider profile
@@ -59,10 +66,11 @@ function migrateToProviderFormat(stored: Partial<ExtensionSettings>): ExtensionS
         apiKey: stored.apiKey || '',
         apiKeys: stored.apiKeys || [],
         primaryApiKeyId: stored.primaryApiKeyId,
-        model: stored.model || DEFAULT_OPENROUTER_MODEL,
+        model: stored.model || DEFAULT_PROVIDER_PROFILES.openrouter.model,
         customModels: stored.customModels || [],
       },
       gemini: DEFAULT_PROVIDER_PROFILES.gemini,
+      local: DEFAULT_PROVIDER_PROFILES.local,
     };
   }
 
@@ -89,11 +97,11 @@ export async function getSettings(): Promise<ExtensionSettings> {
     const settings = migrateToProviderFormat(stored || {});
 
     // Validate models for each provider
-    for (const provider of ['openrouter', 'gemini'] as AIProvider[]) {
+    for (const provider of Object.keys(settings.providers) as AIProvider[]) {
       const profile = settings.providers[provider];
       if (profile.model && !isValidModel(profile.model, provider, profile.customModels)) {
         console.warn(`[AI AutoFill] Invalid ${provider} model "${profile.model}", resetting to default`);
-        profile.model = provider === 'openrouter' ? DEFAULT_OPENROUTER_MODEL : DEFAULT_GEMINI_MODEL;
+        profile.model = DEFAULT_PROVIDER_PROFILES[provider].model;
       }
     }
 
@@ -125,6 +133,7 @@ export async function saveSettings(updates: Partial<ExtensionSettings>): Promise
       newSettings.providers = {
         openrouter: { ...current.providers.openrouter, ...updates.providers.openrouter },
         gemini: { ...current.providers.gemini, ...updates.providers.gemini },
+        local: { ...current.providers.local, ...updates.providers.local },
       };
     }
 
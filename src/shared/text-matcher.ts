@@ -0,0 +1,92 @@
+/**
+ * Text matching helpers shared by option matching, validation and element recovery
+ */
+
+// Minimum similarity for choosing an option for a value (selects, radio groups, popups)
+export const OPTION_MATCH_THRESHOLD = 0.6;
+
+// Share of the longer text a contained text must cover to count as containment ("Korea" is not "North Korea")
+const MIN_CONTAINMENT_RATIO = 0.6;
+
+/**
+ * Normalize text for comparison: compatibility form (full-width "ＡＢＣ１" → "abc1", half-width katakana),
+ * case, whitespace and punctuation
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(/[\s\p{P}]+/gu, '');
+}
+
+/**
+ * Similarity between 0 and 1
+ * Containment scores by how much of the longer text is covered ("서울" is closer to "서울시" than to "서울특별시"),
+ * anything else by edit distance over Hangul jamo, so one mistyped jamo costs a third of a syllable
+ */
+export function textSimilarity(a: string, b: string): number {
+  const x = normalizeText(a);
+  const y = normalizeText(b);
+
+  if (!x || !y) return 0;
+  if (x === y) return 1;
+
+  const [shorter, longer] = x.length <= y.length ? [x, y] : [y, x];
+  const containment = containmentScore(shorter, longer);
+
+  // NFD splits Hangul syllables into jamo ("강" → "ᄀ" + "ᅡ" + "ᆼ")
+  const jamoX = x.normalize('NFD');
+  const jamoY = y.normalize('NFD');
+  const edit = 1 - levenshtein(jamoX, jamoY) / Math.max(jamoX.length, jamoY.length);
+
+  return Math.max(containment, edit);
+}
+
+/**
+ * Score of a shorter text found in a longer one (0 when it is not contained)
+ * Most of the longer text covered scores high; a short word prefix ("서울" of "서울특별시") scores just above
+ * the option threshold, so fuller matches still win; other fragments ("1" in "2021", "Korea" in "North Korea") score 0
+ */
+function containmentScore(shorter: string, longer: string): number {
+  const ratio = shorter.length / longer.length;
+  if (ratio >= MIN_CONTAINMENT_RATIO && longer.includes(shorter)) return 0.75 + 0.2 * ratio;
+
+  // Digits are no abbreviation ("1" is not "10")
+  if (longer.startsWith(shorter) && /\p{L}/u.test(shorter)) return OPTION_MATCH_THRESHOLD + 0.15 * ratio;
+  return 0;
+}
+
+/**
+ * Best matching candidate at or above the threshold, or null
+ */
+export function findBestMatch(
+  value: string,
+  candidates: string[],
+  threshold: number
+): { match: string; index: number; score: number } | null {
+  let best: { match: string; index: number; score: number } | null = null;
+
+  candidates.forEach((candidate, index) => {
+    const score = textSimilarity(value, candidate);
+    if (score >= threshold && (!best || score > best.score)) {
+      best = { match: candidate, index, score };
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Edit distance (insertions, deletions and substitutions), two rows at a time
+ */
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
@@ -10,7 +10,12 @@ export type MessageType =
   | 'TRIGGER_AUTOFILL'
   | 'CHANGE_LANGUAGE' // Change site language for STG debugging
   | 'DEBUG_STREAM' // Streaming AI output for debugging
-  | 'CANCEL_REQUEST'; // Cancel running AI request
+  | 'CANCEL_REQUEST' // Cancel running AI request
+  | 'COLLECT_FRAME_FIELDS' // Detect fields in every frame of the tab
+  | 'FILL_FRAMES' // Fill fields, routing each slice to its own frame
+  | 'UNDO_FILL' // Restore the snapshots of an auto-fill run in this frame
+  | 'UNDO_FRAMES' // Undo an auto-fill run in every frame of the tab
+  | 'RESOLVE_FIELD_VALUES'; // Values for fields revealed while filling, resolved by the top frame
 
 // Extension message structure
 export interface ExtensionMessage<T = unknown> {
@@ -55,6 +60,64 @@ export type FillMethod =
   | 'computed' // Auto-computed field (don't fill)
   | 'skip'; // Skip filling (disabled/readonly)
 
+// How a selector candidate identifies its element
+export type SelectorStrategy = 'id' | 'testid' | 'name' | 'aria-label' | 'label' | 'class' | 'path';
+
+// Ranked fallback for re-locating a field after the page re-renders
+export interface SelectorCandidate {
+  strategy: SelectorStrategy;
+  selector: string; // CSS selector (shadow host segments joined with ' >>> ')
+  labelText?: string; // 'label' strategy: label the matched element must have
+  index?: number; // Position among matches when the selector is not unique
+  score: number; // Stability weighted by uniqueness (higher is better)
+}
+
+// Native validation constraints the filled value must satisfy
+export interface FieldConstraints {
+  min?: number | string; // Number, or ISO date/time for date inputs
+  max?: number | string;
+  step?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  inputType?: string; // Meaningful native type (email, tel, url...)
+  minItems?: number; // Multi-value fields: fewest values to give
+  maxItems?: number; // Multi-value fields: most values the field takes
+}
+
+// What a field means, independent of its widget
+export type SemanticType =
+  | 'email'
+  | 'password'
+  | 'business-number'
+  | 'postcode'
+  | 'phone'
+  | 'url'
+  | 'username'
+  | 'address-detail'
+  | 'address'
+  | 'city'
+  | 'country'
+  | 'birthdate'
+  | 'company'
+  | 'product-name'
+  | 'first-name'
+  | 'last-name'
+  | 'name'
+  | 'price'
+  | 'quantity'
+  | 'title'
+  | 'description';
+
+// What a date field holds (values are exchanged in the canonical format of the kind)
+export type DateKind = 'date' | 'datetime' | 'time' | 'month' | 'year' | 'date-range';
+
+// A generated value that failed validation, and why
+export interface ValueRejection {
+  value: AIFillValue;
+  reason: string;
+}
+
 // Detected form field
 export interface DetectedField {
   id: string;
@@ -63,14 +126,28 @@ export interface DetectedField {
   label: string;
   labelSource: LabelSource;
   selector: string;
+  selectorCandidates?: SelectorCandidate[]; // Ranked best first
   required: boolean;
   currentValue?: string;
   options?: string[];
+  optionValues?: string[]; // Raw input values of radio/checkbox group options (same order as options)
+  optionGroups?: string[]; // Group label of each option, '' when ungrouped (same order as options)
+  constraints?: FieldConstraints;
+  semanticType?: SemanticType;
+  semanticConfidence?: number; // 0-1
+  multiple?: boolean; // Holds several values (MultiSelect, TagsInput, <select multiple>)
+  dateKind?: DateKind; // Date fields: date, datetime, time, month, year or date-range
+  dateFormat?: string; // Date fields: format the widget shows, in dayjs tokens (e.g. "YYYY년 MM월 DD일")
   // New metadata for smart filling
   isDisabled?: boolean;
   isReadOnly?: boolean;
   fillMethod: FillMethod;
   popupTriggerSelector?: string; // For popup fields, the element to click
+  frameId?: number; // Frame the field lives in (0 = top frame)
+  rejection?: ValueRejection; // Set when a previous value was rejected and must be regenerated
+  validationError?: string; // Error message the form shows for the field
+  section?: string; // Heading of the enclosing form section
+  sectionIndex?: number; // Position among form controls in that section
 }
 
 // Form analysis payload
@@ -79,13 +156,79 @@ export interface FormAnalysis {
   fields: DetectedField[];
   screenshot?: string;
   timestamp: number;
+  locale?: string; // Page locale, decides how values like "1.234" or "05/01/2024" are read
 }
 
+// Value for one field: a list for multi-value fields, a string otherwise
+export type AIFillValue = string | string[];
+
 // AI fill result (field id to value mapping)
-export type AIFillResult = Record<string, string>;
+export type AIFillResult = Record<string, AIFillValue>;
+
+// How a field was re-located after its stored selectors went stale
+export type RecoveryMethod = 'label' | 'name' | 'section-position';
+
+// Result of filling a single field
+export interface FillResult {
+  fieldId: string;
+  success: boolean;
+  skipped?: boolean;
+  reason?: string;
+  error?: string;
+  recoveryMethod?: RecoveryMethod; // Set when the element was found by recovery
+  validationError?: string; // Error the form showed for the filled value
+  matchScore?: number; // Similarity (0-1) of the option chosen for the value, when one was matched
+}
+
+// Aggregated fill results (one frame or the whole tab)
+export interface FillSummary {
+  totalFields: number;
+  successCount: number;
+  failCount: number;
+  results: FillResult[];
+}
+
+// FILL_FORM / FILL_FRAMES payload
+export interface FillFormPayload {
+  fields: DetectedField[];
+  values: AIFillResult;
+  enabledFieldTypes?: FieldType[];
+  overwritePolicy?: OverwritePolicy; // Fields the policy protects are left untouched
+  frameId?: number; // Set when the message is routed to a specific frame
+  runId?: string; // Auto-fill run, snapshots are recorded under it for undo
+  knownFieldIds?: string[]; // Enabled fields detected when the run started (not reported as revealed)
+}
+
+// RESOLVE_FIELD_VALUES payload
+export interface ResolveFieldValuesPayload {
+  fields: DetectedField[];
+}
+
+// Field detection request, fanned out to every frame
+export interface CollectFieldsPayload {
+  harvestOptions?: boolean; // Open closed selects briefly to read their options (first detection of a run)
+}
+
+// UNDO_FILL / UNDO_FRAMES payload
+export interface UndoFillPayload {
+  runId: string;
+}
+
+// Which fields an auto-fill may write to
+// always: every field, empty-only: keep pre-entered values, required-only: leave optional fields alone
+export type OverwritePolicy = 'always' | 'empty-only' | 'required-only';
+
+// How text inputs are written
+// auto: type key by key only into masked/autocomplete inputs, paste: set the value at once, type: always type
+export type TypingMode = 'auto' | 'paste' | 'type';
+
+export interface TypingOptions {
+  mode: TypingMode;
+  delay: number; // Milliseconds between keystrokes
+}
 
 // AI provider types
-export type AIProvider = 'openrouter' | 'gemini';
+export type AIProvider = 'openrouter' | 'gemini' | 'local';
 
 // Custom model saved by user
 export interface CustomModel {
@@ -137,6 +280,12 @@ export interface ExtensionSettings {
   enabled: boolean;
   enabledFieldTypes?: FieldType[]; // Field types to auto-fill
   enableVisionRecheck?: boolean; // Use vision (screenshot) for second round verification
+  hybridFill?: boolean; // Generate well-known fields locally, send only the rest to the AI
+  reviewBeforeFill?: boolean; // Show proposed values for editing before they are applied
+  overwritePolicy?: OverwritePolicy; // Which fields an auto-fill may write to (default: always)
+  typingMode?: TypingMode; // How text inputs are written (default: auto)
+  typingDelay?: number; // Milliseconds between keystrokes when typing (default: 30)
+  typingModeByDomain?: Record<string, TypingMode>; // Per-domain typing mode overrides
   targetLanguage?: 'kr' | 'en'; // Site language for STG debugging
   debugMode?: boolean; // Enable streaming AI output for debugging
   customDomains?: string[]; // Additional domains to enable extension on
@@ -0,0 +1,32 @@
+/**
+ * Typing mode - resolves how text inputs are written on a site
+ */
+import type { ExtensionSettings, TypingMode, TypingOptions } from './types';
+import { DEFAULT_TYPING_DELAY } from './constants';
+
+/**
+ * The override for a hostname (exact domain first, then its parent domains)
+ */
+export function getDomainTypingMode(
+  overrides: Record<string, TypingMode> | undefined,
+  hostname: string
+): TypingMode | undefined {
+  if (!overrides) return undefined;
+
+  const parts = hostname.toLowerCase().split('.');
+  for (let i = 0; i < parts.length; i++) {
+    const mode = overrides[parts.slice(i).join('.')];
+    if (mode) return mode;
+  }
+  return undefined;
+}
+
+/**
+ * Typing options for a hostname (domain override, else the global mode)
+ */
+export function getTypingOptions(settings: ExtensionSettings, hostname: string): TypingOptions {
+  return {
+    mode: getDomainTypingMode(settings.typingModeByDomain, hostname) ?? settings.typingMode ?? 'auto',
+    delay: settings.typingDelay ?? DEFAULT_TYPING_DELAY,
+  };
+}
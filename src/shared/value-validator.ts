@@ -0,0 +1,275 @@
+/**
+ * Value validation - checks generated values against their field before anything is filled
+ * Values that can be fixed locally (clamp, trim, closest option) are repaired in place
+ */
+import type { AIFillResult, AIFillValue, DateKind, DetectedField, FieldConstraints, SemanticType } from './types';
+import { toCanonicalDate } from './date-format';
+import { toValueList, toValueText } from './multi-value';
+import { parseFieldNumber } from './number-parser';
+import { OPTION_MATCH_THRESHOLD, findBestMatch } from './text-matcher';
+
+// A value that could not be repaired locally
+export interface ValidationIssue {
+  fieldId: string;
+  value: AIFillValue;
+  reason: string;
+}
+
+export interface ValidationResult {
+  values: AIFillResult; // Valid and locally repaired values (invalid ones removed)
+  issues: ValidationIssue[];
+  repairedCount: number;
+}
+
+// Outcome of checking a single value
+type ValueCheck = { value: AIFillValue; repaired?: boolean } | { error: string };
+
+// Minimum classifier confidence before a semantic type is enforced
+const SEMANTIC_CHECK_CONFIDENCE = 0.8;
+
+// Native input types that already imply a format check
+const INPUT_TYPE_SEMANTICS: Partial<Record<string, SemanticType>> = {
+  email: 'email',
+  url: 'url',
+  tel: 'phone',
+};
+
+const TRUE_VALUES = ['true', '1', 'yes', 'y', 'on', 'checked', '예', '네'];
+const FALSE_VALUES = ['false', '0', 'no', 'n', 'off', 'unchecked', '아니오', '아니요'];
+
+/**
+ * Validate every generated value against its field's type, options and constraints
+ * locale is the page's, so numbers are read with its separators and dates in its day/month order
+ */
+export function validateFillValues(
+  fields: DetectedField[],
+  values: AIFillResult,
+  locale?: string
+): ValidationResult {
+  const result: ValidationResult = { values: {}, issues: [], repairedCount: 0 };
+
+  for (const [fieldId, value] of Object.entries(values)) {
+    const field = fields.find((f) => f.id === fieldId);
+
+    // Unknown fields and popup selections are passed through untouched
+    if (!field || field.fillMethod === 'popup' || value === undefined || value === null) {
+      result.values[fieldId] = value;
+      continue;
+    }
+
+    const check = field.multiple ? checkMultiple(field, value, locale) : checkValue(field, toValueText(value), locale);
+    if ('error' in check) {
+      result.issues.push({ fieldId, value, reason: check.error });
+      continue;
+    }
+
+    result.values[fieldId] = check.value;
+    if (check.repaired) result.repairedCount++;
+  }
+
+  return result;
+}
+
+/**
+ * Check a single value, repairing it when possible
+ */
+function checkValue(field: DetectedField, value: string, locale?: string): ValueCheck {
+  const constraints = field.constraints || {};
+
+  switch (field.type) {
+    case 'select':
+    case 'radio':
+      return field.options?.length ? checkOption(value, field.options, field.optionValues) : { value };
+
+    case 'checkbox':
+      return field.options?.length ? checkOptionList(value, field.options) : checkBoolean(value);
+
+    case 'switch':
+      return checkBoolean(value);
+
+    case 'number':
+      return checkNumber(value, constraints, locale);
+
+    case 'date':
+      return checkDate(value, constraints, field.dateKind, locale);
+
+    case 'file':
+    case 'richtext':
+      return { value };
+
+    default:
+      return checkText(value, constraints, getCheckedSemanticType(field));
+  }
+}
+
+/**
+ * List for a multi-value field: each entry is checked like a single value of the field,
+ * unknown entries and duplicates are dropped and the list is cut to maxItems
+ */
+function checkMultiple(field: DetectedField, value: AIFillValue, locale?: string): ValueCheck {
+  const entries = toValueList(value);
+  const single: DetectedField = { ...field, multiple: false };
+  const checked: string[] = [];
+  const errors: string[] = [];
+
+  for (const entry of entries) {
+    const check = checkValue(single, entry, locale);
+    if ('error' in check) {
+      errors.push(check.error);
+    } else {
+      checked.push(toValueText(check.value));
+    }
+  }
+
+  const { minItems, maxItems } = field.constraints || {};
+  const list = [...new Set(checked)].slice(0, maxItems);
+  if (entries.length > 0 && list.length === 0) return { error: errors[0] };
+  if (minItems && list.length < minItems) {
+    return { error: `Needs at least ${minItems} values, got ${list.length}` };
+  }
+
+  const repaired = !Array.isArray(value) || list.length !== value.length || list.some((v, i) => v !== value[i]);
+  return { value: list, repaired };
+}
+
+/**
+ * Value must be one of the options (snapped to the closest one when similar enough)
+ * Raw option values (radio groups) are mapped to their labels
+ */
+function checkOption(value: string, options: string[], optionValues?: string[]): ValueCheck {
+  const valueIndex = optionValues?.findIndex((v) => v.toLowerCase() === value.toLowerCase().trim()) ?? -1;
+  if (valueIndex >= 0 && options[valueIndex] !== undefined) {
+    return { value: options[valueIndex], repaired: options[valueIndex] !== value };
+  }
+
+  const best = findBestMatch(value, options, OPTION_MATCH_THRESHOLD);
+  if (!best) {
+    return { error: `"${value}" is not one of the options: ${options.join(', ')}` };
+  }
+  return { value: best.match, repaired: best.match !== value };
+}
+
+/**
+ * Comma-separated option list (checkbox groups); unknown entries are dropped
+ */
+function checkOptionList(value: string, options: string[]): ValueCheck {
+  const entries = value.split(',').map((v) => v.trim()).filter(Boolean);
+  const matched = entries
+    .map((entry) => findBestMatch(entry, options, OPTION_MATCH_THRESHOLD)?.match)
+    .filter((match): match is string => match !== undefined);
+
+  if (entries.length > 0 && matched.length === 0) {
+    return { error: `None of "${value}" are options: ${options.join(', ')}` };
+  }
+
+  const repairedValue = [...new Set(matched)].join(', ');
+  return { value: repairedValue, repaired: repairedValue !== value };
+}
+
+/**
+ * Boolean-like value, normalized to "true"/"false"
+ */
+function checkBoolean(value: string): ValueCheck {
+  const normalized = value.toLowerCase().trim();
+  if (TRUE_VALUES.includes(normalized)) return { value: 'true', repaired: value !== 'true' };
+  if (FALSE_VALUES.includes(normalized)) return { value: 'false', repaired: value !== 'false' };
+  return { error: `"${value}" is not a yes/no value` };
+}
+
+/**
+ * Number within min/max, snapped to step (separators, currency and units are read, not rejected)
+ */
+function checkNumber(value: string, constraints: FieldConstraints, locale?: string): ValueCheck {
+  const num = parseFieldNumber(value, constraints, locale);
+  if (num === null) {
+    return { error: `"${value}" is not a number` };
+  }
+  return { value: String(num), repaired: String(num) !== value };
+}
+
+/**
+ * Date in the canonical format of the field's kind, clamped to min/max when they use the same format
+ * Values that can't be read as a date are rejected instead of being typed into the picker
+ */
+function checkDate(
+  value: string,
+  constraints: FieldConstraints,
+  kind: DateKind = 'date',
+  locale?: string
+): ValueCheck {
+  const date = toCanonicalDate(value, kind, locale);
+  if (date === null) {
+    return { error: `"${value}" is not a ${kind === 'date-range' ? 'date range' : kind}` };
+  }
+
+  const inFormat = (v: unknown): v is string => typeof v === 'string' && toCanonicalDate(v, kind) === v;
+  if (kind !== 'date-range') {
+    if (inFormat(constraints.min) && date < constraints.min) return { value: constraints.min, repaired: true };
+    if (inFormat(constraints.max) && date > constraints.max) return { value: constraints.max, repaired: true };
+  }
+  return { value: date, repaired: date !== value };
+}
+
+/**
+ * Semantic type whose format is checked: the native input type, or a confident classification
+ */
+function getCheckedSemanticType(field: DetectedField): SemanticType | undefined {
+  const inputType = field.constraints?.inputType;
+  if (inputType) return INPUT_TYPE_SEMANTICS[inputType];
+  if ((field.semanticConfidence ?? 0) < SEMANTIC_CHECK_CONFIDENCE) return undefined;
+  return field.semanticType;
+}
+
+/**
+ * Text length, pattern and semantic format
+ */
+function checkText(value: string, constraints: FieldConstraints, semanticType?: SemanticType): ValueCheck {
+  let text = value;
+  let repaired = false;
+
+  if (constraints.maxLength !== undefined && text.length > constraints.maxLength) {
+    text = text.slice(0, constraints.maxLength).trim();
+    repaired = true;
+  }
+
+  if (constraints.minLength !== undefined && text.length < constraints.minLength) {
+    return { error: `Must be at least ${constraints.minLength} characters (got ${text.length})` };
+  }
+
+  if (constraints.pattern) {
+    try {
+      if (!new RegExp(`^(?:${constraints.pattern})$`, 'u').test(text)) {
+        return { error: `Does not match the pattern ${constraints.pattern}` };
+      }
+    } catch {
+      // Pattern not valid in JS, skip the check
+    }
+  }
+
+  switch (semanticType) {
+    case 'email':
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(text)) return { error: 'Not a valid email address' };
+      break;
+    case 'url':
+      try {
+        new URL(text);
+      } catch {
+        return { error: 'Not a valid URL' };
+      }
+      break;
+    case 'phone':
+      if (!/^\+?[\d\s().-]{6,}$/.test(text)) return { error: 'Not a valid phone number' };
+      break;
+    case 'postcode':
+      if (!/^[\dA-Za-z][\dA-Za-z\s-]{2,9}$/.test(text)) return { error: 'Not a valid postal code' };
+      break;
+    case 'business-number':
+      // Korean business registration number: 10 digits (XXX-XX-XXXXX)
+      if (!/^\d{3}-?\d{2}-?\d{5}$/.test(text)) {
+        return { error: 'Not a valid business registration number (XXX-XX-XXXXX)' };
+      }
+      break;
+  }
+
+  return { value: text, repaired };
+}
@@ -23,6 +23,8 @@ export function isValidApiKeyForProvider(key: string, provider: AIProvider): boo
   switch (provider) {
     case 'gemini':
       return isValidGeminiApiKey(key);
+    case 'local':
+      return true; // No API key needed
     case 'openrouter':
     default:
       return isValidOpenRouterApiKey(key);